@@ -0,0 +1,106 @@
+import {Action, Disposer, History, Location} from './history';
+
+export interface NavigationEvent {
+	type: 'navigation';
+	time: number; // timestamp in milliseconds
+	elapsed?: number; // milliseconds since the previous navigation
+	action: Action;
+	from?: Location;
+	location: Location;
+	state: any;
+}
+
+// Route of a `Switch` that was tested against the path. Routes after the
+// matched one are not tested.
+export interface MatchCandidate {
+	index: number; // index of the route among `Switch` children
+	path: string; // pattern string, or RegExp source
+	match: RegExpExecArray | null;
+}
+
+export interface MatchEvent {
+	type: 'match';
+	time: number;
+	location: Location;
+	path: string; // path the routes were tested against, relative to parent route
+	candidates: MatchCandidate[];
+	matched: MatchCandidate | null;
+}
+
+export type DevtoolsEvent = NavigationEvent | MatchEvent;
+
+export interface Devtools {
+	events: DevtoolsEvent[]; // oldest first
+	subscribe: (listener: (event: DevtoolsEvent) => void) => Disposer;
+	recordMatch: (match: {location: Location; path: string; candidates: MatchCandidate[]}) => void;
+	clear: () => void;
+	destroy: () => void;
+}
+
+export interface DevtoolsOptions {
+	limit?: number; // max number of kept events
+	target?: {__POUTR_DEVTOOLS__?: Devtools} | null; // where to expose the hook, global window by default
+}
+
+/**
+ * Utils.
+ */
+
+function getGlobalTarget(): DevtoolsOptions['target'] {
+	return typeof window !== 'undefined' ? (window as DevtoolsOptions['target']) : null;
+}
+
+/**
+ * Records navigations of a history, and route matching of `Switch`es when
+ * passed to `<Router devtools>`. It's exposed as `window.__POUTR_DEVTOOLS__`
+ * so it can be inspected from browser's console.
+ *
+ * ```
+ * const devtools = process.env.NODE_ENV === 'development' ? createDevtools(history) : undefined;
+ * render(<Router history={history} devtools={devtools}>…</Router>, root);
+ * ```
+ */
+export function createDevtools(history: History, {limit = 100, target = getGlobalTarget()}: DevtoolsOptions = {}) {
+	const events: DevtoolsEvent[] = [];
+	const listeners = new Set<(event: DevtoolsEvent) => void>();
+	let lastNavigationTime: number | undefined;
+
+	function record(event: DevtoolsEvent) {
+		events.push(event);
+		if (events.length > limit) events.splice(0, events.length - limit);
+		listeners.forEach((listener) => listener(event));
+	}
+
+	const unsubscribe = history.subscribe(({action, location, from}) => {
+		const time = Date.now();
+		const elapsed = lastNavigationTime === undefined ? undefined : time - lastNavigationTime;
+		lastNavigationTime = time;
+		record({type: 'navigation', time, elapsed, action, from, location, state: location.state});
+	});
+
+	const devtools: Devtools = {
+		events,
+		subscribe(listener) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		recordMatch({location, path, candidates}) {
+			const matched = candidates.find(({match}) => match) || null;
+			record({type: 'match', time: Date.now(), location, path, candidates, matched});
+		},
+		clear() {
+			events.splice(0, Infinity);
+		},
+		destroy() {
+			unsubscribe();
+			listeners.clear();
+			if (target?.__POUTR_DEVTOOLS__ === devtools) delete target.__POUTR_DEVTOOLS__;
+		},
+	};
+
+	if (target) target.__POUTR_DEVTOOLS__ = devtools;
+
+	return devtools;
+}
@@ -1,9 +1,9 @@
-const WINDOW = window;
+import {isPromiseLike} from './utils';
 
 export interface WindowSubset {
 	location: {href: string; hash: string};
-	addEventListener(name: string, callback: () => void): void;
-	removeEventListener(name: string, callback: () => void): void;
+	addEventListener(name: string, callback: (event?: any) => void): void;
+	removeEventListener(name: string, callback: (event?: any) => void): void;
 	history: {
 		length: number;
 		state: any;
@@ -13,13 +13,17 @@ export interface WindowSubset {
 	};
 }
 
-export interface Location {
+// `S` is the type of states of history entries. Entries without state, like
+// the initial one, and ones with state rejected by validator, have `undefined`.
+export interface Location<S = any> {
 	readonly href: string;
 	readonly path: string;
 	readonly search: string;
 	readonly searchParams: URLSearchParams;
 	readonly hash: string;
-	readonly state: any;
+	readonly state: S | undefined;
+	readonly key: string; // unique identifier of the history entry
+	readonly outsideBasename?: boolean; // path is outside of history's basename, and was left as is
 }
 
 // POP: Change to an arbitrary index in the history stack.
@@ -27,46 +31,276 @@ export interface Location {
 // REPLACE: Entry at the current index in the history stack being replaced.
 export type Action = 'POP' | 'PUSH' | 'REPLACE';
 
-export interface History {
-	location: Location;
-	from?: Location;
-	state: any;
+export interface History<S = any> {
+	location: Location<S>;
+	from?: Location<S>;
+	action: Action; // action of the last change, `POP` initially
+	state: S | undefined;
 	length: number;
-	go: (delta: number) => void;
-	back: () => void;
-	forward: () => void;
-	push: (location: string, state?: any) => void;
-	replace: (location: string, state?: any) => void;
-	subscribe: (listener: Listener) => Disposer;
-	unsubscribe: (listener: Listener) => void;
+	index: number; // index of the current entry, stamped into its state
+	canGoBack: boolean;
+	canGoForward: boolean;
+	go: (delta: number) => Promise<NavigationResult<S>>;
+	back: () => Promise<NavigationResult<S>>;
+	forward: () => Promise<NavigationResult<S>>;
+	push: (location: string, state?: S, options?: PushOptions) => Promise<NavigationResult<S>>;
+	replace: (location: string, state?: S) => Promise<NavigationResult<S>>;
+	createHref: (location: string) => string;
+	subscribe: (listener: Listener<S>) => Disposer;
+	unsubscribe: (listener: Listener<S>) => void;
+	block: (blocker: Blocker<S>) => Disposer;
+	guard: (guard: Guard<S>) => Disposer;
 	destroy: () => void;
 }
 
+export interface PushOptions {
+	skipDuplicate?: boolean; // don't push when destination equals current href
+}
+
+// Outcome of a navigation, and location it ended up at, which is the current
+// location when it didn't happen.
+export interface NavigationResult<S = any> {
+	status: 'committed' | 'cancelled' | 'redirected' | 'duplicate';
+	location: Location<S>;
+}
+
 export type Disposer = () => void;
-export type Listener = (change: {action: Action; location: Location; from?: Location}) => void;
+export type Listener<S = any> = (change: {action: Action; location: Location<S>; from?: Location<S>}) => void;
+
+// Checks state read from `window.history.state`, which can come from older
+// versions of the app after a reload. Returns the state to use, and states it
+// returns `undefined` for, or throws on, are dropped. It checks states pushed
+// by the app as well, so it has to accept all valid `S` values.
+export type StateValidator<S> = (state: unknown) => S | undefined;
+
+// Navigation that is waiting for approval of blockers. Calling `retry()`
+// passes it to the next blocker, or applies it when there's none left, and
+// `cancel()` drops it. Navigation started while waiting cancels it as well.
+export interface Transition<S = any> {
+	action: Action;
+	location: Location<S>;
+	retry: () => void;
+	cancel: () => void;
+}
+export type Blocker<S = any> = (transition: Transition<S>) => void;
+
+// Guard allows navigation by returning `undefined` or `true`, cancels it by
+// returning `false`, or redirects it by returning a new destination.
+export type GuardResult<S = any> = void | boolean | string | {to: string; state?: S};
+export type Guard<S = any> = (navigation: {
+	action: Action;
+	location: Location<S>;
+	from: Location<S>;
+}) => GuardResult<S> | Promise<GuardResult<S>>;
+
+// Entry a location was opened over, stashed in its state by `pushWithBackground()`
+export interface BackgroundEntry {
+	href: string;
+	state: any;
+	key: string;
+	index: number;
+}
 
 export interface HistoryDriver {
 	getLocation(window: WindowSubset): Location;
 	prepareUrl(to: string, currentLocation: Location): string | undefined;
-	prepareState(state: any, to: string, currentLocation: Location): any;
+	prepareState(state: any, to: string, currentLocation: Location): {[key: string]: any};
+	assertState?: (state: unknown) => void; // throws for states that can't be stored
+	blockUnload?: boolean; // whether blockers should also prompt on page unload
+}
+
+export interface MemoryHistory<S = any> extends History<S> {
+	entries: Location<S>[]; // `index` is the index of the current entry in them
 }
 
+export interface HistoryOptions<S = any> {
+	window?: WindowSubset;
+	basename?: string;
+	validateState?: StateValidator<S>;
+}
+
+export interface MemoryHistoryOptions<S = any> extends HistoryOptions<S> {
+	initial?: string;
+	storage?: Pick<Storage, 'getItem' | 'setItem'>; // persists entries when passed
+	storageKey?: string;
+}
+
+// Serialized entries of a memory history
+interface MemoryHistorySnapshot {
+	entries: {href: string; state: any; key: string}[];
+	index: number;
+}
+
+// Destination of a navigation, with href to be written to the entry
+interface NavigationTarget {
+	location: Location;
+	href: string;
+}
+
+interface TransitionHandlers {
+	apply: (target: NavigationTarget) => void;
+	cancel: () => void;
+	fail: (error: unknown) => void;
+}
+
+interface PendingGo {
+	resolve: (result: NavigationResult) => void;
+	reject: (error: unknown) => void;
+}
+
+const MAX_GUARD_REDIRECTS = 20;
+// Same location always gets the same background location object
+const backgroundLocations = new WeakMap<Location, Location | null>();
+
 /**
  * Utils.
  */
 
-function createLocation(href: string, state?: any): Location {
+function createLocation(href: string, state?: any, key: string = 'default'): Location {
 	const url = new URL(href.includes(':') ? href : `pr:${href}`);
 	const {pathname, search, searchParams, hash} = url;
 	const path = `/${pathname}` // ensure slash at the beginning
 		.replace(/\/+/g, '/') // removes duplicate slashes
 		.replace(/.\/+$/, ''); // removes trailing slash
-	return {href: path + search + hash, path, search, searchParams, hash, state};
+	return {href: path + search + hash, path, search, searchParams, hash, state, key};
+}
+
+// Global window is accessed only when needed, so that this module can be
+// imported in environments without it, like when rendering on a server.
+function getGlobalWindow(): WindowSubset {
+	if (typeof window !== 'undefined') return window;
+	throw new Error('window not available, pass it in options, or use createStaticHistory()');
+}
+
+function createKey() {
+	return Math.random().toString(36).slice(2, 10);
+}
+
+function resolveHref(to: string, currentHref: string) {
+	const {pathname, search, hash} = new URL(to, `http://h.com${currentHref}`);
+	return pathname + search + hash;
+}
+
+// Normalizes basename into `/base` format, or an empty string for root.
+function normalizeBasename(basename: string) {
+	return `/${basename}`.replace(/\/+/g, '/').replace(/\/$/, '');
+}
+
+// Makes location path relative to basename, or flags it when it's outside of it.
+function stripBasename(location: Location, basename: string): Location {
+	if (!basename) return location;
+	const {path, search, hash, state, key} = location;
+	const base = basename.toLowerCase();
+	const lowerPath = path.toLowerCase();
+	if (lowerPath !== base && !lowerPath.startsWith(`${base}/`)) return {...location, outsideBasename: true};
+	return createLocation(path.slice(basename.length) + search + hash, state, key);
 }
 
-function createMockedWindow(initial: string = '/'): WindowSubset {
-	let index = 0;
-	const history: [string, any?][] = [[initial]]; // array of [location, state?] tuples
+// Prepends basename to an absolute href.
+function addBasename(href: string, basename: string) {
+	if (!basename) return href;
+	return basename + (href === '/' || /^\/[?#]/.test(href) ? href.slice(1) : href);
+}
+
+// Reads memory history snapshot from storage, ignoring invalid ones.
+function loadSnapshot(storage: Pick<Storage, 'getItem'>, key: string): MemoryHistorySnapshot | undefined {
+	try {
+		const snapshot = JSON.parse(storage.getItem(key) || 'null');
+		const {entries, index} = snapshot || {};
+		if (Array.isArray(entries) && entries[index] && entries.every((entry) => typeof entry?.href === 'string')) {
+			return snapshot;
+		}
+	} catch {}
+}
+
+// Describes the first value in state that can't be structured cloned, or
+// wouldn't come back the same, such as class instances. `null` when all can.
+function findUnserializable(value: unknown, path: string, seen = new Set<object>()): string | null {
+	if (typeof value === 'function') return `${path} is a function`;
+	if (typeof value === 'symbol') return `${path} is a symbol`;
+	if (value == null || typeof value !== 'object' || seen.has(value)) return null;
+	seen.add(value);
+
+	if (Array.isArray(value)) {
+		for (let i = 0; i < value.length; i++) {
+			const found = findUnserializable(value[i], `${path}[${i}]`, seen);
+			if (found) return found;
+		}
+		return null;
+	}
+
+	if (value instanceof Map || value instanceof Set) {
+		for (const [key, item] of value instanceof Map ? value : [...value].entries()) {
+			const found = findUnserializable(item, `${path}.get(${JSON.stringify(key) ?? String(key)})`, seen);
+			if (found) return found;
+		}
+		return null;
+	}
+
+	if (value instanceof Date || value instanceof RegExp || value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+		return null;
+	}
+
+	if (typeof Blob !== 'undefined' && value instanceof Blob) return null;
+
+	const prototype = Object.getPrototypeOf(value);
+	if (prototype !== Object.prototype && prototype !== null) {
+		return `${path} is an instance of ${prototype?.constructor?.name || 'a class'}`;
+	}
+
+	for (const [key, item] of Object.entries(value)) {
+		const found = findUnserializable(item, `${path}.${key}`, seen);
+		if (found) return found;
+	}
+
+	return null;
+}
+
+// Describes the first value in state that wouldn't come back the same after
+// JSON serialization, such as a `Map` or a `Date`. `null` when all would.
+function findNonJson(value: unknown, path: string, ancestors = new Set<object>()): string | null {
+	if (value == null || typeof value === 'string' || typeof value === 'boolean') return null;
+	if (typeof value === 'number') return Number.isFinite(value) ? null : `${path} is not a finite number`;
+	if (typeof value !== 'object') return `${path} is a ${typeof value}`;
+	if (ancestors.has(value)) return `${path} is a circular reference`;
+
+	const prototype = Object.getPrototypeOf(value);
+	if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+		return `${path} is an instance of ${prototype?.constructor?.name || 'a class'}`;
+	}
+
+	ancestors.add(value);
+	for (const [key, item] of Object.entries(value)) {
+		const found = findNonJson(item, Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`, ancestors);
+		if (found) return found;
+	}
+	ancestors.delete(value);
+
+	return null;
+}
+
+function assertSerializable(state: unknown, find: typeof findUnserializable = findUnserializable) {
+	const found = find(state, 'state');
+	if (found) throw new Error(`state can't be stored in history, ${found}`);
+}
+
+// Replaces state of location read from window with its validated version.
+function validateLocation<S>(location: Location, validateState: StateValidator<S> | undefined): Location<S> {
+	if (!validateState || location.state === undefined) return location;
+
+	let state: S | undefined;
+	try {
+		state = validateState(location.state);
+	} catch {
+		state = undefined;
+	}
+
+	return state === location.state ? location : {...location, state};
+}
+
+function createMockedWindow(entries: [string, any?][] = [['/']], initialIndex: number = 0): WindowSubset {
+	let index = initialIndex;
+	const history = [...entries]; // array of [location, state?] tuples
 	const listeners = new Set<() => void>();
 
 	return {
@@ -101,20 +335,231 @@ function createMockedWindow(initial: string = '/'): WindowSubset {
 /**
  * History creator.
  */
-function createHistory(window: WindowSubset, {getLocation, prepareUrl, prepareState}: HistoryDriver): History {
-	let location: Location = getLocation(window);
+function createHistory(
+	window: WindowSubset,
+	{getLocation, prepareUrl, prepareState, assertState, blockUnload}: HistoryDriver,
+	basename: string = '',
+	validateState?: StateValidator<any>
+): History {
+	let index = isStamped() ? getIndex() : stampEntry(0);
+	let location: Location = readLocation();
 	let from: Location | undefined;
+	let lastAction: Action = 'POP';
+	let lastIndex = index; // index of the last known entry, for telling whether we can go forward
+	let navigationId = 0; // identifies the latest navigation, so that superseded guard results are ignored
+	let cancelBlocked: (() => void) | undefined; // cancels navigation waiting for a blocker
+	const pendingPops: (() => void)[] = []; // handlers of pops caused by blocking or guarding
 	const listeners = new Set<Listener>();
+	const blockers = new Set<Blocker>();
+	const guards = new Set<Guard>();
+	const pendingGoes: PendingGo[] = []; // promises returned by `go()`
 
 	window.addEventListener('popstate', handlePop);
 
+	function readLocation() {
+		return validateLocation(stripBasename(getLocation(window), basename), validateState);
+	}
+
+	// Index of the current entry, stamped into its state when it was created,
+	// or when it was visited, for entries not created by this history.
+	function getIndex(): number {
+		return window.history.state?.index ?? 0;
+	}
+
+	function isStamped() {
+		return window.history.state?.index != null;
+	}
+
+	// Stamps index and a unique key into state of an entry this history didn't
+	// create, like the initial one, keeping the rest of its state, and its URL.
+	function stampEntry(index: number) {
+		const state = window.history.state;
+		const stamped = {...(typeof state === 'object' ? state : null), index, key: createKey()};
+		window.history.replaceState(stamped, '', window.location.href);
+		return index;
+	}
+
+	function handleBeforeUnload(event: any) {
+		event.preventDefault();
+		event.returnValue = '';
+	}
+
 	function handlePop() {
+		const pending = pendingPops.shift();
+		if (pending) return pending();
+
+		// Entries created by the browser, like by in-page anchors, don't have
+		// index to revert to, so they can't be blocked.
+		const delta = isStamped() ? index - getIndex() : 0;
+
+		if ((blockers.size > 0 || guards.size > 0) && delta !== 0) {
+			const target = readLocation();
+			// Browser has already changed the entry, so we have to go back to
+			// where we were, and only return to target when allowed.
+			pendingPops.push(() => {});
+			window.history.go(delta);
+			transition(
+				'POP',
+				{location: target, href: target.href},
+				{
+					apply: (final) => {
+						pendingPops.push(() => {
+							const redirected = final.location !== target;
+							if (redirected) writeEntry('replaceState', final, getIndex());
+							triggerChange('POP');
+							resolveGoes(redirected ? 'redirected' : 'committed');
+						});
+						window.history.go(-delta);
+					},
+					cancel: () => resolveGoes('cancelled'),
+					fail: (error) => {
+						// POPs caused by browser's UI have nobody to report to
+						if (pendingGoes.length === 0) throw error;
+						pendingGoes.splice(0, Infinity).forEach(({reject}) => reject(error));
+					},
+				}
+			);
+			return;
+		}
+
+		supersede();
 		triggerChange('POP');
+		resolveGoes('committed');
+	}
+
+	// Starts a new navigation, cancelling the one waiting for a blocker.
+	function supersede() {
+		const cancel = cancelBlocked;
+		cancelBlocked = undefined;
+		cancel?.();
+		return ++navigationId;
+	}
+
+	// Passes navigation through blockers and guards, and applies its final target.
+	function transition(action: Action, target: NavigationTarget, handlers: TransitionHandlers) {
+		const id = supersede();
+		const guarded = () => (guards.size > 0 ? runGuards(id, action, target, handlers) : handlers.apply(target));
+		if (blockers.size > 0) runBlockers(action, target.location, guarded, handlers.cancel);
+		else guarded();
+	}
+
+	function runBlockers(action: Action, target: Location, apply: () => void, cancel: () => void) {
+		const queue = [...blockers];
+		const next = () => {
+			const blocker = queue.shift();
+			if (!blocker) return apply();
+			let settled = false;
+			const settle = (callback: () => void) => () => {
+				if (settled) return;
+				settled = true;
+				if (cancelBlocked === cancelThis) cancelBlocked = undefined;
+				callback();
+			};
+			const cancelThis = settle(cancel);
+			cancelBlocked = cancelThis;
+			blocker({action, location: target, retry: settle(next), cancel: cancelThis});
+		};
+		next();
+	}
+
+	// Runs guards one by one, waiting for async ones. Redirects restart them
+	// with the new destination. Navigations superseded while waiting are cancelled.
+	function runGuards(id: number, action: Action, target: NavigationTarget, {apply, cancel, fail}: TransitionHandlers) {
+		let queue = [...guards];
+		let redirects = 0;
+		const next = (target: NavigationTarget) => {
+			const guard = queue.shift();
+			if (!guard) return apply(target);
+			let result: GuardResult | PromiseLike<GuardResult>;
+			try {
+				result = guard({action, location: target.location, from: location});
+			} catch (error) {
+				return fail(error);
+			}
+			if (isPromiseLike<GuardResult>(result)) {
+				result.then(
+					(result) => (id === navigationId ? handle(result, target) : cancel()),
+					(error) => (id === navigationId ? fail(error) : cancel())
+				);
+			} else {
+				handle(result, target);
+			}
+		};
+		const handle = (result: GuardResult, target: NavigationTarget) => {
+			if (result === false) return cancel();
+			if (result == null || result === true) return next(target);
+			if (++redirects > MAX_GUARD_REDIRECTS) return fail(new Error('too many guard redirects'));
+			const {to, state} = typeof result === 'string' ? {to: result, state: undefined} : result;
+			try {
+				assertState?.(state);
+			} catch (error) {
+				return fail(error);
+			}
+			const href = resolveHref(to, location.href);
+			queue = [...guards];
+			next({location: createLocation(href, state, createKey()), href});
+		};
+		next(target);
+	}
+
+	function writeEntry(method: 'pushState' | 'replaceState', {location: target, href}: NavigationTarget, index: number) {
+		const url = addBasename(href, basename);
+		const entryState = {...prepareState(target.state, url, location), index, key: target.key};
+		window.history[method](entryState, '', prepareUrl(url, location));
+	}
+
+	function navigate(action: 'PUSH' | 'REPLACE', to: string, state: any, {skipDuplicate}: PushOptions = {}) {
+		const href = resolveHref(to, location.href);
+		const target: NavigationTarget = {location: createLocation(href, state, createKey()), href};
+
+		return new Promise<NavigationResult>((resolve, reject) => {
+			assertState?.(state);
+
+			if (skipDuplicate && target.location.href === location.href) {
+				return resolve({status: 'duplicate', location});
+			}
+
+			transition(action, target, {
+				apply: (final) => {
+					const method = action === 'PUSH' ? 'pushState' : 'replaceState';
+					writeEntry(method, final, action === 'PUSH' ? index + 1 : index);
+					triggerChange(action);
+					resolve({status: final === target ? 'committed' : 'redirected', location});
+				},
+				cancel: () => resolve({status: 'cancelled', location}),
+				fail: reject,
+			});
+		});
+	}
+
+	function resolveGoes(status: NavigationResult['status']) {
+		pendingGoes.splice(0, Infinity).forEach(({resolve}) => resolve({status, location}));
+	}
+
+	function go(delta: number = 0) {
+		const target = index + delta;
+		const id = navigationId;
+		let pending!: PendingGo;
+		const promise = new Promise<NavigationResult>((resolve, reject) => pendingGoes.push((pending = {resolve, reject})));
+		window.history.go(delta);
+		// There'll be no POP to wait for when going nowhere, out of the app, or
+		// past the last entry this history knows of, unless it happened right away
+		if (id === navigationId && (delta === 0 || target < 0 || target > lastIndex)) {
+			pendingGoes.splice(pendingGoes.indexOf(pending), 1);
+			pending.resolve({status: 'cancelled', location});
+		}
+		return promise;
 	}
 
 	function triggerChange(action: Action) {
+		// Entries created by the browser come from in-page navigations, which push
+		const pushed = action === 'POP' && !isStamped();
+		if (pushed) stampEntry(index + 1);
+		lastAction = action;
 		from = location;
-		location = getLocation(window);
+		location = readLocation();
+		index = getIndex();
+		lastIndex = action === 'PUSH' || pushed ? index : Math.max(lastIndex, index);
 		listeners.forEach((listener) => {
 			listener({action, location, from});
 		});
@@ -130,20 +575,30 @@ function createHistory(window: WindowSubset, {getLocation, prepareUrl, prepareSt
 		get from() {
 			return from;
 		},
+		get action() {
+			return lastAction;
+		},
 		get state() {
 			return location.state;
 		},
-		push(to: string, state?: any) {
-			window.history.pushState(prepareState(state, to, location), '', prepareUrl(to, location));
-			triggerChange('PUSH');
+		get index() {
+			return index;
 		},
-		replace(to: string, state?: any) {
-			window.history.replaceState(prepareState(state, to, location), '', prepareUrl(to, location));
-			triggerChange('REPLACE');
+		get canGoBack() {
+			return index > 0;
 		},
-		go: (delta?: number) => window.history.go(delta),
-		back: () => window.history.go(-1),
-		forward: () => window.history.go(1),
+		get canGoForward() {
+			return index < lastIndex;
+		},
+		push: (to: string, state?: any, options?: PushOptions) => navigate('PUSH', to, state, options),
+		replace: (to: string, state?: any) => navigate('REPLACE', to, state),
+		createHref(to: string) {
+			const href = addBasename(resolveHref(to, location.href), basename);
+			return prepareUrl(href, location) ?? href;
+		},
+		go,
+		back: () => go(-1),
+		forward: () => go(1),
 		subscribe(listener: Listener) {
 			listeners.add(listener);
 			return () => listeners.delete(listener);
@@ -151,9 +606,24 @@ function createHistory(window: WindowSubset, {getLocation, prepareUrl, prepareSt
 		unsubscribe(listener: Listener) {
 			listeners.delete(listener);
 		},
+		block(blocker: Blocker) {
+			blockers.add(blocker);
+			if (blockUnload && blockers.size === 1) window.addEventListener('beforeunload', handleBeforeUnload);
+			return () => {
+				blockers.delete(blocker);
+				if (blockUnload && blockers.size === 0) window.removeEventListener('beforeunload', handleBeforeUnload);
+			};
+		},
+		guard(guard: Guard) {
+			guards.add(guard);
+			return () => guards.delete(guard);
+		},
 		destroy() {
 			window.removeEventListener('popstate', handlePop);
+			window.removeEventListener('beforeunload', handleBeforeUnload);
 			listeners.clear();
+			blockers.clear();
+			guards.clear();
 		},
 	};
 }
@@ -163,13 +633,33 @@ function createHistory(window: WindowSubset, {getLocation, prepareUrl, prepareSt
  *
  * Uses browser's path, search, and hash for navigation.
  * Using more than one instance per `window` will break things.
+ *
+ * States of entries survive page reloads, so they can come from older versions
+ * of the app. `validateState` checks them when they're read.
+ *
+ * ```
+ * const history = createBrowserHistory<{scroll: number}>({
+ *   validateState: (state: any) => (typeof state?.scroll === 'number' ? state : undefined),
+ * });
+ * ```
  */
-export function createBrowserHistory({window = WINDOW}: {window?: WindowSubset} = {}): History {
-	return createHistory(window, {
-		getLocation: (window) => createLocation(window.location.href, window.history.state),
-		prepareUrl: (to) => to,
-		prepareState: (state) => state,
-	});
+export function createBrowserHistory<S = any>({
+	window = getGlobalWindow(),
+	basename = '',
+	validateState,
+}: HistoryOptions<S> = {}): History<S> {
+	return createHistory(
+		window,
+		{
+			getLocation: ({location, history}) => createLocation(location.href, history.state?.state, history.state?.key),
+			prepareUrl: (to) => to,
+			prepareState: (state) => ({state}),
+			assertState: assertSerializable,
+			blockUnload: true,
+		},
+		normalizeBasename(basename),
+		validateState
+	);
 }
 
 /**
@@ -179,20 +669,33 @@ export function createBrowserHistory({window = WINDOW}: {window?: WindowSubset}
  * Uses `hashSubstitute` for separating hash withing the hash.
  * Using more than one instance per `window` will break things.
  */
-export function createHashHistory({
-	window = WINDOW,
+export function createHashHistory<S = any>({
+	window = getGlobalWindow(),
 	hashSubstitute = '\uFF03', // full width number sign:＃
-}: {window?: WindowSubset; hashSubstitute?: string} = {}): History {
-	return createHistory(window, {
-		getLocation: ({history, location}) =>
-			createLocation(decodeURIComponent(location.hash.slice(1)).replace(hashSubstitute, '#'), history.state),
-		prepareUrl: (to, {href}) => {
-			let {pathname, search, hash} = new URL(to, `http://h.com${href}`);
-			hash = hash.length > 1 ? `${hashSubstitute}${hash.slice(1)}` : '';
-			return `#${pathname + search + hash}`;
-		},
-		prepareState: (state) => state,
-	});
+	basename = '',
+	validateState,
+}: HistoryOptions<S> & {hashSubstitute?: string} = {}): History<S> {
+	return createHistory(
+		window,
+		{
+			getLocation: ({history, location}) =>
+				createLocation(
+					decodeURIComponent(location.hash.slice(1)).replace(hashSubstitute, '#'),
+					history.state?.state,
+					history.state?.key
+				),
+			prepareUrl: (to, {href}) => {
+				let {pathname, search, hash} = new URL(to, `http://h.com${href}`);
+				hash = hash.length > 1 ? `${hashSubstitute}${hash.slice(1)}` : '';
+				return `#${pathname + search + hash}`;
+			},
+			prepareState: (state) => ({state}),
+			assertState: assertSerializable,
+			blockUnload: true,
+		},
+		normalizeBasename(basename),
+		validateState
+	);
 }
 
 /**
@@ -210,28 +713,167 @@ export function createHashHistory({
  * use the window's instead of history's `push/replace/…` methods to navigate.
  * This is because you introduce history steps that memory history doesn't
  * recognize, which leads to undefinable behavior.
+ *
+ * `initial` is relative to `basename`, same as paths passed to `push/replace`.
+ *
+ * Entries are available in `entries`, and index of the current one in `index`.
+ * With `storage`, they are saved to it on every change, and restored from it
+ * on creation, in which case `initial` is used only when there's nothing to
+ * restore. Entry states have to be JSON serializable.
  */
-export function createMemoryHistory({initial = '/', window}: {initial?: string; window?: WindowSubset} = {}): History {
-	const win = window || createMockedWindow();
-	const prepareState = (state: any, to: string, current?: {href: string}) => {
-		const {pathname, search, hash} = new URL(to, `https://m.com${current?.href || ''}`);
-		return {
-			IS_MEMORY_HISTORY_STATE: true, // can't use Symbol, as it gets removed in (de)serialization
-			state,
-			href: `${pathname}${search}${hash}`,
-		};
-	};
+export function createMemoryHistory<S = any>({
+	initial = '/',
+	window,
+	basename = '',
+	storage,
+	storageKey = 'poutr-history',
+	validateState,
+}: MemoryHistoryOptions<S> = {}): MemoryHistory<S> {
+	if (window && storage) throw new Error('storage is not supported with a custom window');
+
+	const base = normalizeBasename(basename);
+	const prepareState = (state: any, to: string, current?: {href: string}) => ({
+		IS_MEMORY_HISTORY_STATE: true, // can't use Symbol, as it gets removed in (de)serialization
+		state,
+		href: resolveHref(to, current?.href || ''),
+	});
+	const snapshot = storage ? loadSnapshot(storage, storageKey) : undefined;
+	const win =
+		window ||
+		createMockedWindow(
+			snapshot?.entries.map(({href, state, key}, index) => [
+				'/',
+				{...prepareState(state, addBasename(href, base)), index, key},
+			]),
+			snapshot?.index
+		);
 
 	// Apply initial location
-	win.history.replaceState(prepareState(null, initial), '');
+	if (!snapshot) win.history.replaceState(prepareState(undefined, addBasename(resolveHref(initial, '/'), base)), '');
 
-	return createHistory(win, {
-		getLocation: (window) => {
-			const winState = window.history.state;
-			if (!winState?.IS_MEMORY_HISTORY_STATE) throw new Error('navigation out of memory history');
-			return createLocation(winState.href, winState.state);
+	const history = createHistory(
+		win,
+		{
+			getLocation: (window) => {
+				const winState = window.history.state;
+				if (!winState?.IS_MEMORY_HISTORY_STATE) throw new Error('navigation out of memory history');
+				return createLocation(winState.href, winState.state, winState.key);
+			},
+			prepareState,
+			prepareUrl: () => undefined,
+			// Custom windows store states in their history, storage as JSON
+			assertState: window
+				? assertSerializable
+				: storage
+				? (state) => assertSerializable(state, findNonJson)
+				: undefined,
 		},
-		prepareState,
-		prepareUrl: () => undefined,
+		base,
+		validateState
+	);
+	const getIndex = (): number => win.history.state?.index ?? 0;
+	let entries: Location<S>[] = snapshot
+		? snapshot.entries.map(({href, state, key}, index) =>
+				index === snapshot.index ? history.location : validateLocation(createLocation(href, state, key), validateState)
+		  )
+		: [history.location];
+	const save = () => {
+		if (!storage) return;
+		const snapshot: MemoryHistorySnapshot = {
+			entries: entries.map(({href, state, key}) => ({href, state, key})),
+			index: getIndex(),
+		};
+		storage.setItem(storageKey, JSON.stringify(snapshot));
+	};
+
+	history.subscribe(({action, location}) => {
+		const index = getIndex();
+		if (action === 'PUSH') entries = [...entries.slice(0, index), location];
+		// Guards redirecting POPs rewrite the entry as well
+		if (action !== 'PUSH') entries = entries.map((entry, i) => (i === index ? location : entry));
+		save();
 	});
+	save();
+
+	return Object.defineProperties(history, {
+		entries: {get: () => entries},
+		canGoForward: {get: () => getIndex() < entries.length - 1}, // entries are known even when restored
+	}) as MemoryHistory<S>;
+}
+
+/**
+ * Static history.
+ *
+ * History of a single URL, meant for rendering on a server. It never touches
+ * the global window, and navigation only changes its in-memory location.
+ * `url` can be a path, or an absolute URL, of which only path, search, and
+ * hash are used. It includes `basename`, as it's the URL that was requested.
+ */
+export function createStaticHistory<S = any>(url: string = '/', {basename = ''}: {basename?: string} = {}): History<S> {
+	return createHistory(
+		createMockedWindow([[url]]),
+		{
+			getLocation: ({location, history}) => createLocation(location.href, history.state?.state, history.state?.key),
+			prepareUrl: (to, {href}) => resolveHref(to, href),
+			prepareState: (state) => ({state}),
+		},
+		normalizeBasename(basename)
+	);
+}
+
+/**
+ * Pushes a location that is rendered over the current one, which is stashed
+ * in its state as a background entry. Pushing from a location that already has
+ * a background keeps it. `state` has to be an object, or `undefined`.
+ *
+ * ```
+ * pushWithBackground(history, '/photos/42');
+ * getBackgroundLocation(history.location)?.path; // /feed
+ * ```
+ */
+export function pushWithBackground(history: History, to: string, state?: {[key: string]: any}) {
+	const {location, index} = history;
+	const background: BackgroundEntry = location.state?.background || {
+		href: location.href,
+		state: location.state,
+		key: location.key,
+		index,
+	};
+	return history.push(to, {...state, background});
+}
+
+/**
+ * Returns location stashed by `pushWithBackground()` in state of a location,
+ * or `null` when it has none, such as when it was loaded directly.
+ */
+export function getBackgroundLocation(location: Location): Location | null {
+	let background = backgroundLocations.get(location);
+
+	if (background === undefined) {
+		const entry: BackgroundEntry | undefined = location.state?.background;
+		background = entry ? createLocation(entry.href, entry.state, entry.key) : null;
+		backgroundLocations.set(location, background);
+	}
+
+	return background;
+}
+
+/**
+ * Navigates back to the background entry of current location. Goes back in
+ * history when it's still there, or replaces current entry with it otherwise.
+ * Resolves as `cancelled` when current location has no background.
+ */
+export function closeToBackground(history: History): Promise<NavigationResult> {
+	const entry: BackgroundEntry | undefined = history.location.state?.background;
+	if (!entry) return Promise.resolve({status: 'cancelled', location: history.location});
+
+	const delta = entry.index - history.index;
+	if (delta >= 0) return history.replace(entry.href, entry.state);
+
+	return history.go(delta).then((result) =>
+		// Entry at that index could've been replaced since
+		result.status === 'committed' && result.location.key !== entry.key
+			? history.replace(entry.href, entry.state)
+			: result
+	);
 }
@@ -1,22 +1,582 @@
-import {h, RenderableProps, createContext, isValidElement, cloneElement, FunctionComponent} from 'preact';
-import {useState, useMemo, useLayoutEffect, useContext} from 'preact/hooks';
-import {Location, History} from './history';
+import {
+	h,
+	Fragment,
+	RenderableProps,
+	createContext,
+	isValidElement,
+	cloneElement,
+	FunctionComponent,
+	VNode,
+	RefObject,
+	ComponentChildren,
+} from 'preact';
+import {useState, useMemo, useLayoutEffect, useContext, useRef, useErrorBoundary} from 'preact/hooks';
+import {
+	Location,
+	History,
+	Action,
+	Blocker,
+	Transition,
+	GuardResult,
+	pushWithBackground,
+	getBackgroundLocation,
+} from './history';
+import {pattern, buildPath, PatternParams, PatternParamsArgs} from './pattern';
+import {applySearchUpdate, QueryCodec, SearchParamsUpdate, queryCodecs} from './search';
+import {Devtools, DevtoolsEvent, MatchCandidate} from './devtools';
+import {routeRegExp, matchRoute, SearchMatcher} from './matcher';
+import {normalizePath, isPromiseLike} from './utils';
 
 export * from './history';
+export * from './pattern';
+export * from './search';
+export * from './devtools';
+export * from './matcher';
 
-export type RouteProps<P = {}> = P & {
+export type RouteProps<P = {}, S = any> = P & {
 	match: RegExpExecArray;
-	location: Location;
-	history: History;
+	location: Location<S>;
+	history: History<S>;
 };
 
+export type Loader<T = any> = (args: {
+	match: RegExpExecArray;
+	location: Location;
+	signal: AbortSignal;
+}) => T | Promise<T>;
+
+// Guard of navigations to a route, see `Guard` for possible results.
+export type RouteGuard<S = any> = (navigation: {
+	action: Action;
+	location: Location<S>;
+	from: Location<S>;
+	match: RegExpExecArray;
+}) => GuardResult<S> | Promise<GuardResult<S>>;
+
+export interface LazyComponent<P = RouteProps> extends FunctionComponent<P> {
+	readonly loaded: boolean;
+	preload: () => Promise<FunctionComponent<P>>;
+}
+
+export interface LazyOptions {
+	loading?: FunctionComponent<any>; // rendered while module is loading
+	error?: FunctionComponent<{error: unknown}>; // rendered when module failed to load
+}
+
+export interface Navigation {
+	state: 'idle' | 'loading';
+	location?: Location; // location being loaded
+}
+
+// Collects response details while rendering on a server
+export interface RenderContext {
+	status?: number;
+	redirect?: string; // href to redirect to
+	title?: string; // title of the deepest route that has one
+	meta?: {[name: string]: string};
+}
+
+// Document title and `<meta name>` tags contents
+export interface Head {
+	title?: string;
+	meta?: {[name: string]: string | undefined};
+}
+
+// Head value of a route, or a function that returns it for its match
+export type RouteHead<T> = T | ((route: {match: RegExpExecArray; location: Location}) => T);
+
+export interface ScrollRestorationOptions {
+	container?: RefObject<Element>; // scrolled element, defaults to window
+	storageKey?: string; // has to be unique for each container
+	storage?: Pick<Storage, 'getItem' | 'setItem'>; // defaults to sessionStorage
+}
+
+// Phase of a route rendered by `<Switch transition>`
+export type TransitionPhase = 'entering' | 'entered' | 'exiting';
+
+export interface RouteTransition {
+	phase: TransitionPhase;
+	action: Action; // action of the navigation that rendered the route
+}
+
+export interface TransitionOptions {
+	duration?: number; // how long the outgoing route stays rendered, 300ms by default
+	viewTransition?: boolean; // swaps routes with `document.startViewTransition()` when supported
+}
+
+// Plain object form of a route. Routes with `children` are nested, and their
+// component receives the matched child route as its children.
+export interface RouteConfig {
+	path: RegExp | string;
+	component?: FunctionComponent<RouteProps<{children?: ComponentChildren}>>;
+	children?: RouteConfig[];
+	redirect?: string; // makes the route a `<Redirect>` to this destination
+	search?: SearchMatcher;
+	hash?: string | RegExp;
+	loader?: Loader;
+	guard?: RouteGuard;
+	errorElement?: ComponentChildren;
+	title?: RouteHead<string | undefined>;
+	meta?: RouteHead<Head['meta']>;
+}
+
+export interface SwitchProps {
+	location?: Location; // matched instead of current location, such as a background one
+	errorElement?: ComponentChildren;
+	notFound?: ComponentChildren;
+	transition?: boolean | TransitionOptions;
+}
+
+export type RouteDefinitions = {[name: string]: string};
+
+export type RouteLinkProps<P extends string, K> = RenderableProps<
+	{route: K; state?: any; [key: string]: unknown} & ({} extends PatternParams<P>
+		? {params?: PatternParams<P>}
+		: {params: PatternParams<P>})
+>;
+
+export interface RouteDefinitionsApi<T extends RouteDefinitions> {
+	paths: {[K in keyof T]: RegExp};
+	buildUrl<K extends keyof T & string>(name: K, ...params: PatternParamsArgs<T[K]>): string;
+	Link<K extends keyof T & string>(props: RouteLinkProps<T[K], K>): VNode;
+	useParams<K extends keyof T & string>(name: K): PatternParams<T[K]>;
+}
+
 export const HistoryContext = createContext<History | null>(null);
 export const ParamsContext = createContext<{[key: string]: string} | null>(null);
+// Provided by `nested` routes. `base` is the part of the path matched by all
+// nested ancestors, and `rest` the remainder descendant routes match against.
+export const RouteContext = createContext<NestedRoute | null>(null);
+export const LoaderDataContext = createContext<any>(undefined);
+export const RouteErrorContext = createContext<unknown>(undefined);
+export const RouteTransitionContext = createContext<RouteTransition | null>(null);
+const NavigationContext = createContext<NavigationStore | null>(null);
+const RenderContextContext = createContext<RenderContext | null>(null);
+const DevtoolsContext = createContext<Devtools | null>(null);
+// Location of a `<Switch location>` its descendants see as current
+const LocationOverrideContext = createContext<Location | null>(null);
+const HeadStoreContext = createContext<HeadStore | null>(null);
+// Depth of routes with title or meta, deeper ones take precedence
+const HeadDepthContext = createContext(0);
+// Search param updates waiting to be applied in a single navigation
+const searchUpdateBatches = new WeakMap<History, SearchUpdateBatch>();
+// Lazy components without `loading` fallback, which routes wait for instead
+const waitedForLazyComponents = new WeakSet<LazyComponent<any>>();
+// Depths of routes that set collected head values, so the deepest one wins
+const collectedHeadDepths = new WeakMap<RenderContext, {title: number; meta: {[name: string]: number}}>();
+
+type NavigationStore = ReturnType<typeof createNavigationStore>;
+type HeadStore = ReturnType<typeof createHeadStore>;
+
+interface NestedRoute {
+	base: string; // part of the path matched by nested routes
+	rest: string; // remainder of the path their descendants match against
+	restOf: (location: Location) => string | null; // remainder of any location, `null` when they don't match it
+}
+
+interface SearchUpdateBatch {
+	patches: ((params: URLSearchParams) => URLSearchParams)[];
+	push: boolean;
+	onError: Set<(error: unknown) => void>; // error handlers of components that queued patches
+}
+
+interface LoadableRoute {
+	match: RegExpExecArray;
+	location: Location;
+	loader?: Loader;
+	guard?: RouteGuard; // guard that didn't run before navigation to location
+	component?: FunctionComponent<any>;
+	key?: unknown; // identifies which of the routes is being loaded
+}
+
+interface TransitionItem extends RouteTransition {
+	id: string;
+	content: ComponentChildren;
+}
+
+// Part of View Transitions API used by route transitions, not all DOM typings have it
+interface ViewTransitionDocument extends Document {
+	startViewTransition?: (update: () => Promise<void>) => unknown;
+}
+
+interface HeadEntry {
+	head: Head;
+	depth: number;
+	order: number; // of registration, later ones win on equal depth
+}
+
+// Tag managed by head store, and its content before it was managed
+interface ManagedMeta {
+	element: HTMLMetaElement;
+	original: string | null; // `null` when tag was created by the store
+}
+
+interface LoadedRoute<T extends LoadableRoute> {
+	route: T | null;
+	data?: any;
+	error?: unknown;
+	cancelled?: boolean; // by route guard
+}
+
+/**
+ * Utils.
+ */
+
+function resolvePath(to: string, base: string) {
+	if (/^[\/?#]/.test(to)) return to;
+	const {pathname, search, hash} = new URL(to, `http://h.com${base}/`);
+	return pathname + search + hash;
+}
+
+// Returns path of in-app destinations, and `undefined` for external URLs.
+// Absolute URLs are in-app when they're under the URL of history's root,
+// which includes its basename, and their path is made relative to it.
+function toAppPath(to: string, history: History): string | undefined {
+	if (!/^([a-z][a-z\d+.-]*:|\/\/)/i.test(to)) return to;
+	if (typeof window === 'undefined') return undefined;
+	const root = new URL(history.createHref('/'), window.location.href).href.replace(/\/$/, '');
+	const {href} = new URL(to, window.location.href);
+	const rest = href.slice(root.length);
+	if (href.slice(0, root.length).toLowerCase() !== root.toLowerCase() || !/^([/?#]|$)/.test(rest)) return undefined;
+	return `/${rest.replace(/^\//, '')}`;
+}
+
+function isModifiedClick(event: MouseEvent) {
+	return event.button !== 0 || event.metaKey || event.altKey || event.ctrlKey || event.shiftKey;
+}
+
+/**
+ * Queues search params update, and applies all updates queued within the same
+ * tick in a single navigation. It's a push when any of them wasn't a replace.
+ * Navigation errors are passed to `onError` of all queued updates.
+ */
+function queueSearchUpdate(
+	history: History,
+	patch: (params: URLSearchParams) => URLSearchParams,
+	replace: boolean | undefined,
+	onError: (error: unknown) => void
+) {
+	let batch = searchUpdateBatches.get(history);
+
+	if (!batch) {
+		const newBatch: SearchUpdateBatch = (batch = {patches: [], push: false, onError: new Set()});
+		searchUpdateBatches.set(history, newBatch);
+		Promise.resolve().then(() => {
+			searchUpdateBatches.delete(history);
+			const {path, search, hash, href, state} = history.location;
+			const params = newBatch.patches.reduce((params, patch) => patch(params), new URLSearchParams(search));
+			const newSearch = params.toString();
+			const newHref = `${path}${newSearch ? `?${newSearch}` : ''}${hash}`;
+			if (newHref === href) return;
+			(newBatch.push ? history.push(newHref) : history.replace(newHref, state)).catch((error) =>
+				newBatch.onError.forEach((onError) => onError(error))
+			);
+		});
+	}
+
+	batch.patches.push(patch);
+	batch.onError.add(onError);
+	if (!replace) batch.push = true;
+}
+
+// Keeps track of loaders in progress, and notifies `useNavigation()` hooks.
+function createNavigationStore() {
+	const pending = new Set<{location: Location}>();
+	const listeners = new Set<() => void>();
+	let navigation: Navigation = {state: 'idle'};
+
+	function update() {
+		const last = [...pending].pop();
+		navigation = last ? {state: 'loading', location: last.location} : {state: 'idle'};
+		listeners.forEach((listener) => listener());
+	}
+
+	return {
+		get navigation() {
+			return navigation;
+		},
+		track(location: Location) {
+			const token = {location};
+			pending.add(token);
+			update();
+			return () => {
+				if (pending.delete(token)) update();
+			};
+		},
+		subscribe(listener: () => void) {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+	};
+}
+
+// One line summary of an event for `<DevtoolsOverlay/>`.
+function describeDevtoolsEvent(event: DevtoolsEvent) {
+	if (event.type === 'navigation') {
+		const elapsed = event.elapsed === undefined ? '' : ` +${event.elapsed}ms`;
+		return `${event.action} ${event.from?.href ?? '∅'} → ${event.location.href}${elapsed}`;
+	}
+
+	const candidates = event.candidates.map(({index, path, match}) => {
+		const groups = match?.groups ? ` ${JSON.stringify(match.groups)}` : '';
+		return `#${index} ${path} ${match ? `✓${groups}` : '✗'}`;
+	});
+	return `match ${event.path}: ${candidates.join(', ') || 'no routes'}`;
+}
+
+// Applies head of the deepest registered entries to the document, and restores
+// the original title and meta tags once nobody sets them.
+function createHeadStore(document: Document) {
+	const entries = new Set<HeadEntry>();
+	const managedMeta = new Map<string, ManagedMeta>();
+	let originalTitle: string | null = null;
+	let order = 0;
+
+	function findMeta(name: string) {
+		for (const element of document.head.querySelectorAll('meta[name]')) {
+			if (element.getAttribute('name') === name) return element as HTMLMetaElement;
+		}
+		return null;
+	}
+
+	function apply() {
+		const sorted = [...entries].sort((a, b) => a.depth - b.depth || a.order - b.order);
+		let title: string | undefined;
+		const meta: {[name: string]: string} = {};
+
+		for (const {head} of sorted) {
+			if (head.title != null) title = head.title;
+			for (const [name, content] of Object.entries(head.meta || {})) if (content != null) meta[name] = content;
+		}
+
+		if (title != null) {
+			if (originalTitle == null) originalTitle = document.title;
+			document.title = title;
+		} else if (originalTitle != null) {
+			document.title = originalTitle;
+			originalTitle = null;
+		}
+
+		for (const [name, content] of Object.entries(meta)) {
+			let managed = managedMeta.get(name);
+			if (!managed) {
+				const existing = findMeta(name);
+				const element = existing || document.createElement('meta');
+				if (!existing) {
+					element.setAttribute('name', name);
+					document.head.appendChild(element);
+				}
+				managed = {element, original: existing ? existing.getAttribute('content') : null};
+				managedMeta.set(name, managed);
+			}
+			managed.element.setAttribute('content', content);
+		}
+
+		for (const [name, {element, original}] of managedMeta) {
+			if (name in meta) continue;
+			if (original == null) element.remove();
+			else element.setAttribute('content', original);
+			managedMeta.delete(name);
+		}
+	}
+
+	return {
+		add(head: Head, depth: number) {
+			const entry = {head, depth, order: order++};
+			entries.add(entry);
+			apply();
+			return () => {
+				if (entries.delete(entry)) apply();
+			};
+		},
+	};
+}
+
+// Records head values to render context, unless a deeper route already did.
+function collectHead(context: RenderContext, {title, meta = {}}: Head, depth: number) {
+	let depths = collectedHeadDepths.get(context);
+	if (!depths) collectedHeadDepths.set(context, (depths = {title: -1, meta: {}}));
+
+	if (title != null && depth >= depths.title) {
+		context.title = title;
+		depths.title = depth;
+	}
+
+	for (const [name, content] of Object.entries(meta)) {
+		if (content == null || depth < (depths.meta[name] ?? -1)) continue;
+		context.meta = {...context.meta, [name]: content};
+		depths.meta[name] = depth;
+	}
+}
+
+// Registers head to the router's store, or collects it when rendering on a server.
+function useHead(head: Head | null, depth: number) {
+	const store = useContext(HeadStoreContext);
+	const renderContext = useContext(RenderContextContext);
+
+	if (renderContext && head) collectHead(renderContext, head, depth);
+
+	useLayoutEffect(
+		() => (store && head ? store.add(head, depth) : undefined),
+		[store, depth, head?.title, JSON.stringify(head?.meta)]
+	);
+}
+
+// Returns a callback that rethrows errors of async work, like navigations
+// started by event handlers, during render, so that they reach error boundaries.
+function useAsyncError() {
+	const [failure, setFailure] = useState<{error: unknown} | null>(null);
+	if (failure) throw failure.error;
+	return (error: unknown) => setFailure({error});
+}
+
+function escapeHtml(value: string) {
+	return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Locations of the same entry are the same, even when they're different objects,
+// like a background location and the entry it was created from.
+function isSameLocation(a: Location | undefined, b: Location | undefined) {
+	return a === b || (!!a && !!b && a.key === b.key && a.href === b.href);
+}
+
+function isWaitedForLazyComponent(component: unknown): component is LazyComponent<any> {
+	return waitedForLazyComponents.has(component as LazyComponent<any>) && !(component as LazyComponent).loaded;
+}
+
+/**
+ * Runs guard and loader of the passed route, and preloads its lazy component
+ * when it should be waited for, and returns it along with loaded data once
+ * it's done. Until then, returns the previously returned route, so it stays
+ * rendered. Routes with nothing to load are returned right away.
+ *
+ * Guards redirecting at this point replace current location, and ones that
+ * cancel make the route not render.
+ */
+function useLoadedRoute<T extends LoadableRoute>(route: T | null): LoadedRoute<T> {
+	const history = useHistory();
+	const navigation = useContext(NavigationContext);
+	const [loaded, setLoaded] = useState<LoadedRoute<T> | null>(null);
+	const displayed = useRef<LoadedRoute<T>>({route: null});
+	const hasLoading = !!route?.loader || !!route?.guard || isWaitedForLazyComponent(route?.component);
+	const isLoaded = isSameLocation(loaded?.route?.location, route?.location) && loaded?.route?.key === route?.key;
+	const needsLoading = hasLoading && !isLoaded;
+
+	useLayoutEffect(() => {
+		if (!needsLoading || !route) return;
+
+		const {loader, guard, component, match, location} = route;
+		const controller = new AbortController();
+		const done = navigation?.track(location);
+		const commit = (result: {data?: any; error?: unknown; cancelled?: boolean}) => {
+			if (controller.signal.aborted) return;
+			done?.();
+			setLoaded({route, ...result});
+		};
+
+		new Promise<GuardResult>((resolve) =>
+			resolve(guard?.({action: history.action, location, from: history.from || location, match}))
+		)
+			.then((result) => {
+				if (controller.signal.aborted) return;
+				if (result === false) return commit({cancelled: true});
+				if (result != null && result !== true) {
+					const {to, state} = typeof result === 'string' ? {to: result, state: undefined} : result;
+					return history.replace(to, state).then(() => {});
+				}
+				return Promise.all([
+					loader?.({match, location, signal: controller.signal}),
+					isWaitedForLazyComponent(component) ? component.preload() : undefined,
+				]).then(([data]) => commit({data}));
+			})
+			.catch((error) => commit({error}));
+
+		return () => {
+			controller.abort();
+			done?.();
+		};
+	}, [needsLoading, route?.location.key, route?.location.href, route?.key]);
+
+	const result = !hasLoading
+		? {route}
+		: isLoaded
+		? loaded!.cancelled
+			? {route: null}
+			: loaded!
+		: displayed.current.error // failed routes are not kept rendered
+		? {route: null}
+		: displayed.current;
+	displayed.current = result;
+	return result;
+}
+
+/**
+ * Returns path of any location that routes under `parentRoute` would match
+ * against, or `null` when they wouldn't match anything.
+ */
+function getRoutePath(location: Location, parentRoute: NestedRoute | null): string | null {
+	if (location.outsideBasename) return null;
+	return parentRoute ? parentRoute.restOf(location) : location.path;
+}
+
+/**
+ * Registers a history guard that runs guard of a route which would render at
+ * navigation's destination, as returned by `resolve()`, and returns whether
+ * passed location was allowed by it.
+ *
+ * Errors thrown by route guards don't stop the navigation. They are returned
+ * when rendering its location instead, so that routes can throw them to the
+ * closest error boundary.
+ */
+function useRouteGuard(
+	resolve: (location: Location) => {guard?: RouteGuard; match: RegExpExecArray} | null,
+	enabled: boolean,
+	location: Location
+): {guarded: boolean; error?: unknown} {
+	const history = useHistory();
+	const resolveRef = useRef(resolve);
+	const guarded = useRef<{key: string; error?: unknown} | null>(null);
+	resolveRef.current = resolve;
+
+	useLayoutEffect(() => {
+		if (!enabled) return;
+		return history.guard((navigation) => {
+			const route = resolveRef.current(navigation.location);
+			if (!route?.guard) return;
+			const {key} = navigation.location;
+			const settle = (result: GuardResult) => {
+				if (result == null || result === true) guarded.current = {key};
+				return result;
+			};
+			const fail = (error: unknown) => {
+				guarded.current = {key, error};
+			};
+			try {
+				const result = route.guard({...navigation, match: route.match});
+				return isPromiseLike<GuardResult>(result) ? Promise.resolve(result).then(settle, fail) : settle(result);
+			} catch (error) {
+				fail(error);
+			}
+		});
+	}, [history, enabled]);
+
+	return guarded.current?.key === location.key ? {guarded: true, error: guarded.current.error} : {guarded: false};
+}
+
+/**
+ * Returns the path routes should match against. That's either current
+ * location path, or its remainder not matched by parent `nested` routes.
+ * Locations outside of history's basename have no path to match.
+ */
+function useRoutePath(location: Location): string | null {
+	const rest = useContext(RouteContext)?.rest;
+	return location.outsideBasename ? null : rest ?? location.path;
+}
 
 /**
  * Returns current history interface.
  */
-export function useHistory() {
+export function useHistory<S = any>(): History<S> {
 	const history = useContext(HistoryContext);
 	if (history) return history;
 	throw new Error('No router provider found.');
@@ -24,7 +584,7 @@ export function useHistory() {
 
 /**
  * Returns `RegExpExecArray.groups` map of the matched expression on the parent
- * `<Route/>` component.
+ * `<Route/>` component, merged with groups of all its parent routes.
  *
  * ```
  * // Route definition somewhere in the app's root component
@@ -48,12 +608,214 @@ export function useParams<T extends {} = {}>(): T {
 	throw new Error('No params provider found.');
 }
 
+/**
+ * Returns data loaded by `loader` of the parent `<Route/>` component.
+ *
+ * ```
+ * <Route path="/users/:id" loader={({match, signal}) => fetchUser(match.groups.id, {signal})} component={User} />
+ *
+ * function User() {
+ *   const user = useLoaderData<UserData>();
+ * }
+ * ```
+ */
+export function useLoaderData<T = any>(): T {
+	return useContext(LoaderDataContext);
+}
+
+/**
+ * Returns error caught by the closest route error boundary. Meant to be used
+ * in `errorElement` of `<Route/>` or `<Switch/>`.
+ *
+ * ```
+ * <Route path="/users/:id" loader={loadUser} errorElement={<UserError />} component={User} />
+ *
+ * function UserError() {
+ *   const error = useRouteError<Error>();
+ *   return <p>Couldn't load user: {error.message}</p>;
+ * }
+ * ```
+ */
+export function useRouteError<T = unknown>(): T {
+	return useContext(RouteErrorContext) as T;
+}
+
+/**
+ * Sets document title while the component is mounted. It takes precedence over
+ * titles of the routes it's rendered in, and the previous title is restored
+ * once nothing sets it. `null` and `undefined` leave the title to routes.
+ *
+ * ```
+ * function User({user}) {
+ *   useTitle(user ? `${user.name} | Users` : null);
+ * }
+ * ```
+ */
+export function useTitle(title: string | null | undefined) {
+	useHead(title == null ? null : {title}, useContext(HeadDepthContext) + 0.5);
+}
+
+/**
+ * Renders title and meta tags collected to render context during a server
+ * render, to be inserted into document's `<head>`.
+ *
+ * ```
+ * const context: RenderContext = {};
+ * const html = renderToString(<Router history={history} context={context}><App /></Router>);
+ * const head = renderHead(context); // <title>Users</title><meta name="description" content="…">
+ * ```
+ */
+export function renderHead({title, meta = {}}: RenderContext): string {
+	const tags = Object.entries(meta).map(
+		([name, content]) => `<meta name="${escapeHtml(name)}" content="${escapeHtml(content)}">`
+	);
+	return (title == null ? '' : `<title>${escapeHtml(title)}</title>`) + tags.join('');
+}
+
+/**
+ * Returns transition phase of the closest route rendered by `<Switch transition>`,
+ * and action of the navigation that rendered it, or `null` outside of it.
+ *
+ * ```
+ * function Page() {
+ *   const transition = useRouteTransition();
+ *   return <div class={`page ${transition?.phase} ${transition?.action === 'POP' ? 'back' : 'forward'}`}>…</div>;
+ * }
+ * ```
+ */
+export function useRouteTransition(): RouteTransition | null {
+	return useContext(RouteTransitionContext);
+}
+
+/**
+ * Returns navigation state, which is `loading` while any route loaders are in
+ * progress, and `idle` otherwise.
+ *
+ * ```
+ * const {state, location} = useNavigation();
+ * return state === 'loading' ? <Spinner /> : null;
+ * ```
+ */
+export function useNavigation(): Navigation {
+	const store = useContext(NavigationContext);
+	if (!store) throw new Error('No router provider found.');
+	const [, setNaNToUpdate] = useState(NaN);
+	useLayoutEffect(() => store.subscribe(() => setNaNToUpdate(NaN)), [store]);
+	return store.navigation;
+}
+
+/**
+ * Returns match of the path expression or pattern against current location,
+ * or `null` when it doesn't match. Re-renders on location change.
+ *
+ * Works outside of `<Route/>` components, but respects parent `nested` routes.
+ *
+ * ```
+ * const match = useMatch('/users/:id');
+ * const isUsers = useMatch(/^\/users/) != null;
+ * ```
+ */
+export function useMatch(path: RegExp | string): RegExpExecArray | null {
+	const [location] = useLocation();
+	const routePath = useRoutePath(location);
+	return routePath == null ? null : routeRegExp(path).exec(routePath);
+}
+
+/**
+ * Returns current search params, and a function to update them.
+ *
+ * Objects passed to the setter are merged into current params, where `null`
+ * and `undefined` values remove params. `URLSearchParams` replace them all.
+ * Path and hash are preserved. Updates made within the same tick are applied
+ * in a single history entry.
+ *
+ * ```
+ * const [searchParams, setSearchParams] = useSearchParams();
+ * setSearchParams({page: 2, tags: ['a', 'b'], query: null});
+ * setSearchParams((params) => ({page: Number(params.get('page')) + 1}), {replace: true});
+ * ```
+ */
+export function useSearchParams(): [
+	URLSearchParams,
+	(
+		update: SearchParamsUpdate | ((params: URLSearchParams) => SearchParamsUpdate),
+		options?: {replace?: boolean}
+	) => void
+] {
+	const [location, , history] = useLocation();
+	const onError = useAsyncError();
+	const setSearchParams = useMemo(
+		() =>
+			(
+				update: SearchParamsUpdate | ((params: URLSearchParams) => SearchParamsUpdate),
+				{replace}: {replace?: boolean} = {}
+			) =>
+				queueSearchUpdate(
+					history,
+					(params) => applySearchUpdate(params, typeof update === 'function' ? update(params) : update),
+					replace,
+					onError
+				),
+		[history]
+	);
+	return [location.searchParams, setSearchParams];
+}
+
+/**
+ * Returns value of a search param parsed by `codec`, and a function to update
+ * it. Setting `undefined` or `null` removes the param.
+ *
+ * Value is `undefined` when param is missing or invalid, unless there's
+ * a `defaultValue`. Updates follow the same rules as `useSearchParams()`.
+ *
+ * ```
+ * const [page, setPage] = useQueryState('page', queryCodecs.number, {defaultValue: 1});
+ * const [tags, setTags] = useQueryState('tags', queryCodecs.array());
+ * setPage((page) => page + 1);
+ * ```
+ */
+export function useQueryState<T = string>(
+	key: string,
+	codec: QueryCodec<T>,
+	options: {defaultValue: T; replace?: boolean}
+): [T, (value: T | null | undefined | ((value: T) => T | null | undefined)) => void];
+export function useQueryState<T = string>(
+	key: string,
+	codec?: QueryCodec<T>,
+	options?: {defaultValue?: T; replace?: boolean}
+): [T | undefined, (value: T | null | undefined | ((value: T | undefined) => T | null | undefined)) => void];
+export function useQueryState<T>(
+	key: string,
+	codec = queryCodecs.string as unknown as QueryCodec<T>, // overloads default `T` to string
+	{defaultValue, replace}: {defaultValue?: T; replace?: boolean} = {}
+) {
+	const [searchParams] = useSearchParams();
+	const history = useHistory();
+	const onError = useAsyncError();
+	const parse = (params: URLSearchParams) => {
+		const values = params.getAll(key);
+		return (values.length > 0 ? codec.parse(values) : undefined) ?? defaultValue;
+	};
+	const setValue = (value: T | null | undefined | ((value: T | undefined) => T | null | undefined)) =>
+		queueSearchUpdate(
+			history,
+			(params) => {
+				const newValue = typeof value === 'function' ? (value as (value?: T) => T)(parse(params)) : value;
+				return applySearchUpdate(params, {[key]: newValue == null ? null : codec.serialize(newValue)});
+			},
+			replace,
+			onError
+		);
+	return [parse(searchParams), setValue];
+}
+
 /**
  * Facilitates reading/writing location, and reloading on change.
  *
  * Also returns `history` as 3rd item for convenience.
  * Difference from `useHistory()` is that `useHistory()` doesn't re-render the
- * current component when location changes.
+ * current component when location changes. Descendants of `<Switch location>`
+ * get its location instead of the current one.
  *
  * ```
  * const [location, navigate, history] = useLocation();
@@ -61,12 +823,169 @@ export function useParams<T extends {} = {}>(): T {
  * navigate('/foo/bar');
  * ```
  */
-export function useLocation(): [Location, (location: string) => void, History] {
-	const history = useHistory();
+export function useLocation<S = any>(): [Location<S>, (location: string, state?: S) => void, History<S>] {
+	const history = useHistory<S>();
 	const [, setNaNToUpdate] = useState(NaN); // `NaN === NaN` is always false
+	const override = useContext(LocationOverrideContext);
 	const unsubscribe = useMemo(() => history.subscribe(() => setNaNToUpdate(NaN)), [history]);
 	useLayoutEffect(() => unsubscribe, [history]);
-	return [history.location, history.push, history];
+	return [override || history.location, history.push, history];
+}
+
+/**
+ * Returns location the current one was opened over with `pushWithBackground()`
+ * or `<Link background>`, or `null` when it has none, such as when it was
+ * loaded directly. Re-renders on location change.
+ *
+ * ```
+ * function App() {
+ *   const background = useBackgroundLocation();
+ *   return (
+ *     <Fragment>
+ *       <Switch location={background || undefined}>
+ *         <Route path="/feed" component={Feed} />
+ *         <Route path="/photos/:id" component={PhotoPage} />
+ *       </Switch>
+ *       {background && <Route path="/photos/:id" component={PhotoModal} />}
+ *     </Fragment>
+ *   );
+ * }
+ * ```
+ */
+export function useBackgroundLocation(): Location | null {
+	const history = useHistory();
+	useLocation();
+	return getBackgroundLocation(history.location);
+}
+
+/**
+ * Blocks navigation while `when` is true.
+ *
+ * Blocker receives a transition, and has to call its `retry()` method to let
+ * it through, or `cancel()` to drop it. Navigation stays pending until either
+ * is called, or another navigation starts.
+ *
+ * ```
+ * useBlocker(({retry, cancel}) => {
+ *   if (confirm('Discard unsaved changes?')) retry();
+ *   else cancel();
+ * }, isDirty);
+ * ```
+ */
+export function useBlocker<S = any>(blocker: Blocker<S>, when: boolean = true) {
+	const history = useHistory<S>();
+	const blockerRef = useRef(blocker);
+	blockerRef.current = blocker;
+	useLayoutEffect(
+		() => (when ? history.block((transition) => blockerRef.current(transition)) : undefined),
+		[history, when]
+	);
+}
+
+/**
+ * Restores scroll positions of history entries when navigating back/forward,
+ * and scrolls to the top, or to the element targeted by `#hash` on push and
+ * replace.
+ *
+ * Positions are keyed by `location.key`, and saved to `sessionStorage` so they
+ * survive page reloads. Scrolls the window by default. Other elements can be
+ * passed as `container`, each with a unique `storageKey`.
+ *
+ * ```
+ * useScrollRestoration(); // window
+ * useScrollRestoration({container: sidebarRef, storageKey: 'sidebar-scroll'});
+ * ```
+ */
+export function useScrollRestoration({
+	container,
+	storageKey = 'poutr-scroll',
+	storage = typeof sessionStorage === 'undefined' ? undefined : sessionStorage,
+}: ScrollRestorationOptions = {}) {
+	const [location, , history] = useLocation();
+	const lastAction = useRef<Action | null>(null);
+	const positions = useMemo<{[key: string]: [number, number]}>(() => {
+		try {
+			return JSON.parse(storage?.getItem(storageKey) || '{}');
+		} catch {
+			return {};
+		}
+	}, [storage, storageKey]);
+
+	function getScroll(): [number, number] {
+		const element = container?.current;
+		return element ? [element.scrollLeft, element.scrollTop] : [window.scrollX, window.scrollY];
+	}
+
+	function scrollTo([left, top]: [number, number]) {
+		const element = container?.current;
+		if (element) {
+			element.scrollLeft = left;
+			element.scrollTop = top;
+		} else {
+			window.scrollTo(left, top);
+		}
+	}
+
+	function save(key: string) {
+		positions[key] = getScroll();
+		try {
+			storage?.setItem(storageKey, JSON.stringify(positions));
+		} catch {} // storage might be full or unavailable
+	}
+
+	// Save position of the entry being left before new location renders
+	useLayoutEffect(() => {
+		const saveCurrent = () => save(history.location.key);
+		const unsubscribe = history.subscribe(({action, from}) => {
+			lastAction.current = action;
+			if (from) save(from.key);
+		});
+		window.addEventListener('pagehide', saveCurrent);
+
+		let scrollRestoration: ScrollRestoration | undefined;
+		if (!container) {
+			scrollRestoration = window.history.scrollRestoration;
+			window.history.scrollRestoration = 'manual';
+		}
+
+		return () => {
+			unsubscribe();
+			window.removeEventListener('pagehide', saveCurrent);
+			if (scrollRestoration) window.history.scrollRestoration = scrollRestoration;
+		};
+	}, [history, container, storageKey]);
+
+	// Restore position once new location has rendered
+	useLayoutEffect(() => {
+		const action = lastAction.current;
+		const saved = positions[location.key];
+
+		if (action === 'PUSH' || action === 'REPLACE') {
+			const target =
+				location.hash.length > 1 ? document.getElementById(decodeURIComponent(location.hash.slice(1))) : null;
+			if (target) target.scrollIntoView();
+			else scrollTo([0, 0]);
+		} else if (saved) {
+			scrollTo(saved);
+		} else if (action === 'POP') {
+			scrollTo([0, 0]);
+		}
+	}, [location]);
+}
+
+/**
+ * Restores scroll positions on navigation. See `useScrollRestoration()`.
+ *
+ * ```
+ * <Router history={history}>
+ *   <ScrollRestoration />
+ *   <App />
+ * </Router>
+ * ```
+ */
+export function ScrollRestoration(props: ScrollRestorationOptions) {
+	useScrollRestoration(props);
+	return null;
 }
 
 /**
@@ -77,9 +996,64 @@ export function useLocation(): [Location, (location: string) => void, History] {
  *   <App/>
  * </Router>
  * ```
+ *
+ * When rendering on a server, pass a `context` object, which `<Redirect/>` and
+ * `<Status/>` components fill with response status and redirect target.
+ *
+ * ```
+ * const context: RenderContext = {};
+ * const html = renderToString(
+ *   <Router history={createStaticHistory(request.url)} context={context}>
+ *     <App/>
+ *   </Router>
+ * );
+ * if (context.redirect) response.redirect(context.status, context.redirect);
+ * ```
  */
-export function Router({history, children}: RenderableProps<{history: History}>) {
-	return <HistoryContext.Provider value={history}>{children}</HistoryContext.Provider>;
+export function Router({
+	history,
+	context,
+	devtools,
+	children,
+}: RenderableProps<{history: History; context?: RenderContext; devtools?: Devtools}>) {
+	const navigation = useMemo(createNavigationStore, []);
+	// Head is only collected to render context on a server
+	const head = useMemo(() => (context || typeof document === 'undefined' ? null : createHeadStore(document)), []);
+	return (
+		<HistoryContext.Provider value={history}>
+			<RenderContextContext.Provider value={context || null}>
+				<NavigationContext.Provider value={navigation}>
+					<HeadStoreContext.Provider value={head}>
+						<DevtoolsContext.Provider value={devtools || null}>{children}</DevtoolsContext.Provider>
+					</HeadStoreContext.Provider>
+				</NavigationContext.Provider>
+			</RenderContextContext.Provider>
+		</HistoryContext.Provider>
+	);
+}
+
+/**
+ * Renders `element` instead of children when they throw, until location changes.
+ */
+function RouteErrorBoundary({element, children}: RenderableProps<{element: ComponentChildren}>) {
+	const [location] = useLocation();
+	const locationRef = useRef(location);
+	const failedAt = useRef<Location | null>(null);
+	const [error, reset] = useErrorBoundary(() => {
+		failedAt.current = locationRef.current;
+	});
+	const isFailed = !!error && failedAt.current === location;
+	locationRef.current = location;
+
+	useLayoutEffect(() => {
+		if (error && !isFailed) reset();
+	});
+
+	return isFailed ? (
+		<RouteErrorContext.Provider value={error}>{element}</RouteErrorContext.Provider>
+	) : (
+		<Fragment>{children}</Fragment>
+	);
 }
 
 /**
@@ -89,36 +1063,178 @@ export function Router({history, children}: RenderableProps<{history: History}>)
  * <Route path={/regexp/} component={Foo} /> // Foo receives `{match, location, history}` as props here
  * <Route path={/regexp/}><Foo/></Route>
  * <Route path={/regexp/}>{(match: RegExpMatchArray, location: Location, history: History) => <Foo/>}</Route>
+ * <Route path="/users/:id" component={User} /> // pattern strings are compiled with `pattern()`
+ * ```
+ *
+ * Route with a `loader` renders only after its loader resolves. Loaded data is
+ * available to children via `useLoaderData()`.
+ *
+ * ```
+ * <Route path="/users/:id" loader={({match, location, signal}) => fetchUser(match.groups.id, {signal})} component={User} />
+ * ```
+ *
+ * `nested` routes make their descendant routes and links match and resolve
+ * relative to the part of the path they matched.
+ *
+ * ```
+ * <Route path={/^\/admin/} nested>
+ *   <Route path={/^\/users$/} component={Users} /> // matches /admin/users
+ *   <Link to="users">Users</Link> // <a href="/admin/users">Users</a>
+ * </Route>
+ * ```
+ *
+ * `guard` runs before navigations to the route, and can allow, cancel, or
+ * redirect them. Errors it throws are thrown when rendering the route.
+ * Routes that weren't rendered when navigation started, like ones nested in
+ * routes that didn't match, or at initial location, run it before rendering.
+ *
+ * ```
+ * <Route path="/admin" guard={() => isLoggedIn() || '/login'} component={Admin} />
+ * ```
+ *
+ * `errorElement` is rendered instead of the route when its loader or guard
+ * fails, or when its content throws, until the next navigation. The error is
+ * available to it via `useRouteError()`.
+ *
+ * ```
+ * <Route path="/users/:id" loader={loadUser} errorElement={<UserError />} component={User} />
+ * ```
+ *
+ * `search` and `hash` additionally require search params and hash to match.
+ * Values they capture are merged into named groups of the match, and params.
+ *
+ * ```
+ * <Route path="/photos" search={{view: 'grid'}} component={Grid} /> // /photos?view=grid
+ * <Route path="/photos" search={{page: true}} component={Page} /> // /photos?page=2, params {page: '2'}
+ * <Route path="/settings" hash={/^(?<section>\w+)$/} component={Settings} /> // /settings#privacy
+ * ```
+ *
+ * `title` and `meta` set document title and `<meta name>` tags while the route
+ * is matched. Deepest matched route wins, and previous values are restored
+ * when nothing sets them anymore. On a server, they're collected to the
+ * render context instead, see `renderHead()`.
+ *
+ * ```
+ * <Route path="/users/:id" title={({match}) => `User ${match.groups.id}`} meta={{description: 'User detail'}} component={User} />
  * ```
  */
 export function Route({
 	path,
 	component: Component,
 	children,
+	nested,
+	loader,
+	guard,
+	errorElement,
+	title,
+	meta,
+	search,
+	hash,
 	_match,
+	_location,
+	_data,
+	_error,
 }: RenderableProps<{
-	path: RegExp;
+	path: RegExp | string;
 	component?: FunctionComponent<RouteProps>;
+	nested?: boolean;
+	search?: SearchMatcher;
+	hash?: string | RegExp;
+	loader?: Loader;
+	guard?: RouteGuard;
+	errorElement?: ComponentChildren;
+	title?: RouteHead<string | undefined>;
+	meta?: RouteHead<Head['meta']>;
 	_match?: RegExpExecArray;
+	_location?: Location;
+	_data?: any;
+	_error?: unknown;
 }>) {
-	const [location, , history] = useLocation();
-	const match = _match || path.exec(location.path);
-	return match ? (
-		<ParamsContext.Provider value={match?.groups || {}}>
-			{Component ? (
-				<Component match={match} location={location} history={history} />
-			) : typeof children === 'function' ? (
-				children({match, location, history})
-			) : (
-				children
-			)}
-		</ParamsContext.Provider>
-	) : null;
+	const [currentLocation, , history] = useLocation();
+	const routePath = useRoutePath(currentLocation);
+	const parentRoute = useContext(RouteContext);
+	const parentParams = useContext(ParamsContext);
+	const headDepth = useContext(HeadDepthContext) + 1;
+	const matchLocation = (location: Location) => {
+		const routePath = getRoutePath(location, parentRoute);
+		return routePath == null ? null : matchRoute({path, nested, search, hash}, location, routePath);
+	};
+	// Routes rendered by <Switch> are already matched, loaded, and guarded by it
+	const guarded = useRouteGuard(
+		(location) => {
+			const match = matchLocation(location);
+			return match && {guard, match};
+		},
+		!!guard && !_match,
+		currentLocation
+	);
+	const currentMatch =
+		_match || routePath == null ? null : matchRoute({path, nested, search, hash}, currentLocation, routePath);
+	const loaded = useLoadedRoute(
+		currentMatch && !guarded.error
+			? {
+					match: currentMatch,
+					location: currentLocation,
+					loader,
+					guard: guarded.guarded ? undefined : guard,
+					component: Component,
+			  }
+			: null
+	);
+	const error = _error || guarded.error || loaded.error;
+
+	if (error && errorElement === undefined) throw error;
+
+	const match = _match || (guarded.error ? currentMatch : loaded.route?.match);
+	const location = _location || loaded.route?.location || currentLocation;
+	const data = _match ? _data : loaded.data;
+	const hasHead = title !== undefined || meta !== undefined;
+	const resolveHead = <T,>(value: RouteHead<T>) =>
+		typeof value === 'function' ? (value as Function)({match, location}) : value;
+
+	useHead(match && hasHead ? {title: resolveHead(title), meta: resolveHead(meta)} : null, headDepth);
+
+	if (!match) return null;
+
+	let content = error ? (
+		<RouteErrorContext.Provider value={error}>{errorElement}</RouteErrorContext.Provider>
+	) : Component ? (
+		<Component match={match} location={location} history={history} />
+	) : typeof children === 'function' ? (
+		children({match, location, history})
+	) : (
+		children
+	);
+
+	if (nested) {
+		const matchedPath = routePath || ''; // only missing when outside of basename
+		const matchedEnd = match.index + match[0].length;
+		const nestedRoute: NestedRoute = {
+			base: normalizePath(`${parentRoute?.base || ''}/${matchedPath.slice(0, matchedEnd)}`).replace(/^\/$/, ''),
+			rest: normalizePath(matchedPath.slice(matchedEnd)),
+			restOf: (location) => {
+				const match = matchLocation(location);
+				return match ? normalizePath(match.input.slice(match.index + match[0].length)) : null;
+			},
+		};
+		content = <RouteContext.Provider value={nestedRoute}>{content}</RouteContext.Provider>;
+	}
+
+	if (hasHead) content = <HeadDepthContext.Provider value={headDepth}>{content}</HeadDepthContext.Provider>;
+	if (loader) content = <LoaderDataContext.Provider value={data}>{content}</LoaderDataContext.Provider>;
+	if (errorElement !== undefined && !error) {
+		content = <RouteErrorBoundary element={errorElement}>{content}</RouteErrorBoundary>;
+	}
+
+	return <ParamsContext.Provider value={{...parentParams, ...match.groups}}>{content}</ParamsContext.Provider>;
 }
 
 /**
  * Renders first matching route element.
  *
+ * When matching route has a `loader`, previously rendered route stays rendered
+ * until the loader resolves.
+ *
  * ```
  * <Switch>
  *   <Route path={/^\/foo\/bar$/} component={FooBar} />
@@ -131,23 +1247,260 @@ export function Route({
  * function FooBar({match, location, history}: RouteProps) {}
  * function Default() {}
  * ```
+ *
+ * Loader and guard errors of routes are passed to their `errorElement`. When
+ * they don't have one, or their content throws, Switch's `errorElement` is
+ * rendered instead, until the next navigation.
+ *
+ * `notFound` is rendered when no route matches, and reports 404 status to
+ * the render context.
+ *
+ * ```
+ * <Switch errorElement={<Error />} notFound={<NotFound />}>…</Switch>
+ * ```
+ *
+ * With `transition`, outgoing route stays rendered in `exiting` phase
+ * alongside the incoming one in `entering` phase, until `duration` passes.
+ * Routes can read their phase with `useRouteTransition()`.
+ *
+ * ```
+ * <Switch transition={{duration: 200}}>…</Switch>
+ * ```
+ *
+ * With `location`, routes are matched against it instead of the current
+ * location, and its descendants see it as current. Used to keep rendering
+ * a background location under a modal route, see `useBackgroundLocation()`.
+ *
+ * ```
+ * <Switch location={useBackgroundLocation() || undefined}>…</Switch>
+ * ```
  */
-export function Switch({children}: RenderableProps<{}>) {
-	const [{path: currentPath}] = useLocation();
+export function Switch({
+	children,
+	location: locationProp,
+	errorElement,
+	notFound,
+	transition,
+}: RenderableProps<SwitchProps>) {
+	const [currentLocation] = useLocation();
+	const location = locationProp || currentLocation;
+	const locationOverride = useContext(LocationOverrideContext);
+	const parentRoute = useContext(RouteContext);
+	const routePath = useRoutePath(location);
+	// Rest of parent routes is of the current location
+	const currentPath = locationProp ? getRoutePath(locationProp, parentRoute) : routePath;
+	const devtools = useContext(DevtoolsContext);
+	const elements = Array.isArray(children) ? children : [children];
+	const findRoute = (location: Location, routePath: string | null, candidates?: MatchCandidate[]) => {
+		if (routePath == null) return null;
 
-	for (const element of Array.isArray(children) ? children : [children]) {
-		if (!isValidElement(element)) continue;
+		for (let i = 0; i < elements.length; i++) {
+			const element = elements[i];
+			if (!isValidElement(element)) continue;
 
-		const path = (element?.props as any)?.path as RegExp | undefined;
-		if (path && typeof path === 'object' && typeof path.exec === 'function') {
-			const match = path.exec(currentPath);
-			if (match) return cloneElement(element, {_match: match});
-		} else {
-			throw new Error(`"path" not a RegExp.`);
+			const {path, nested, search, hash, loader, guard, component} = (element?.props || {}) as {
+				path?: unknown;
+				nested?: boolean;
+				search?: SearchMatcher;
+				hash?: string | RegExp;
+				loader?: Loader;
+				guard?: RouteGuard;
+				component?: FunctionComponent;
+			};
+			const regexp = routeRegExp(path, nested);
+			const match = matchRoute({path: regexp, search, hash}, location, routePath);
+			candidates?.push({index: i, path: typeof path === 'string' ? path : regexp.source, match});
+			if (match) return {element, match, loader, guard, component, key: i};
 		}
+
+		return null;
+	};
+	const guarded = useRouteGuard(
+		(location) => findRoute(location, getRoutePath(location, parentRoute)),
+		// Navigations don't change what switch with explicit location renders
+		!locationProp &&
+			elements.some((element) => isValidElement(element) && !!(element.props as {guard?: RouteGuard}).guard),
+		location
+	);
+	const candidates: MatchCandidate[] | undefined = devtools ? [] : undefined;
+	const found = findRoute(location, currentPath, candidates);
+	useLayoutEffect(() => {
+		if (devtools && candidates && currentPath != null) devtools.recordMatch({location, path: currentPath, candidates});
+	}, [devtools, location, currentPath]);
+	const loaded = useLoadedRoute(
+		found && !guarded.error ? {...found, location, guard: guarded.guarded ? undefined : found.guard} : null
+	);
+	const {route, data, error} =
+		found && guarded.error ? {route: {...found, location}, data: undefined, error: guarded.error} : loaded;
+	let content: ComponentChildren = null;
+	let contentId = 'none'; // identifies rendered page for transitions
+
+	if (route) {
+		content = cloneElement(route.element, {
+			_match: route.match,
+			_location: route.location,
+			_data: data,
+			_error: error,
+		});
+		contentId = `${route.key}:${route.match[0]}`;
+	} else if (!found && notFound !== undefined) {
+		content = (
+			<Fragment>
+				<Status code={404} />
+				{notFound}
+			</Fragment>
+		);
+		contentId = 'notFound';
 	}
 
-	return null;
+	if (transition) {
+		content = (
+			<RouteTransitions id={contentId} options={transition === true ? {} : transition}>
+				{content}
+			</RouteTransitions>
+		);
+	}
+
+	if (errorElement !== undefined) content = <RouteErrorBoundary element={errorElement}>{content}</RouteErrorBoundary>;
+
+	// Provided even without location prop, so that content isn't remounted when it's toggled
+	return (
+		<LocationOverrideContext.Provider value={locationProp || locationOverride}>
+			{content}
+		</LocationOverrideContext.Provider>
+	);
+}
+
+/**
+ * Keeps previously rendered content with different `id` in `exiting` phase
+ * alongside the current one in `entering` phase, until `duration` passes.
+ *
+ * With view transitions, content is swapped right away in a callback of
+ * `document.startViewTransition()`, which animates between their snapshots.
+ */
+function RouteTransitions({
+	id,
+	options: {duration = 300, viewTransition = false},
+	children,
+}: RenderableProps<{id: string; options: TransitionOptions}>) {
+	const history = useHistory();
+	const items = useRef<TransitionItem[]>([]);
+	const [, setNaNToUpdate] = useState(NaN);
+	const [allowedId, setAllowedId] = useState(id);
+	const latestIds = useRef({id, allowedId});
+	const resolveViewTransition = useRef<(() => void) | null>(null);
+	const startViewTransition: ((update: () => Promise<void>) => unknown) | undefined =
+		viewTransition && typeof document !== 'undefined'
+			? (document as ViewTransitionDocument).startViewTransition?.bind(document)
+			: undefined;
+	// With view transitions, new content is rendered only once they allow it
+	const renderedId = startViewTransition ? allowedId : id;
+	const current = items.current.find((item) => item.phase !== 'exiting');
+	latestIds.current = {id, allowedId};
+
+	if (!current || (current.id !== renderedId && startViewTransition)) {
+		items.current = [{id, content: children, phase: 'entered', action: history.action}];
+	} else if (current.id !== renderedId) {
+		items.current = [
+			...items.current.filter((item) => item.id !== id).map((item): TransitionItem => ({...item, phase: 'exiting'})),
+			{id, content: children, phase: 'entering', action: history.action},
+		];
+	} else if (renderedId === id) {
+		items.current = items.current.map((item) => (item.id === id ? {...item, content: children} : item));
+	}
+
+	const isTransitioning = items.current.some((item) => item.phase !== 'entered');
+
+	useLayoutEffect(() => {
+		if (!isTransitioning) return;
+		const timeout = setTimeout(() => {
+			items.current = items.current
+				.filter((item) => item.phase !== 'exiting')
+				.map((item) => ({...item, phase: 'entered'}));
+			setNaNToUpdate(NaN);
+		}, duration);
+		return () => clearTimeout(timeout);
+	}, [isTransitioning, items.current[items.current.length - 1]?.id]);
+
+	useLayoutEffect(() => {
+		if (!startViewTransition || allowedId === id) return;
+		startViewTransition(
+			() =>
+				new Promise<void>((resolve) => {
+					const {id, allowedId} = latestIds.current;
+					if (id === allowedId) return resolve();
+					resolveViewTransition.current = resolve;
+					setAllowedId(id);
+				})
+		);
+	}, [id]);
+
+	useLayoutEffect(() => {
+		resolveViewTransition.current?.();
+		resolveViewTransition.current = null;
+	}, [allowedId]);
+
+	return (
+		<Fragment>
+			{items.current.map(({id, content, phase, action}) => (
+				<RouteTransitionContext.Provider key={id} value={{phase, action}}>
+					{content}
+				</RouteTransitionContext.Provider>
+			))}
+		</Fragment>
+	);
+}
+
+// Turns route config into the same elements it'd be written as in JSX.
+function createRouteElement(
+	{path, component: Component, children, redirect, ...props}: RouteConfig,
+	index: number
+): VNode {
+	if (redirect !== undefined) return <Redirect key={index} path={path} to={redirect} />;
+	if (!children) return <Route key={index} {...props} path={path} component={Component} />;
+
+	const childRoutes = <Switch>{children.map(createRouteElement)}</Switch>;
+	return (
+		<Route key={index} {...props} path={path} nested>
+			{Component ? (routeProps: RouteProps) => <Component {...routeProps}>{childRoutes}</Component> : childRoutes}
+		</Route>
+	);
+}
+
+/**
+ * Renders the first matching route of a route config tree, same as `<Switch>`
+ * with `<Route>` elements would. Routes with `children` are `nested`, and
+ * receive their matched child route as children.
+ *
+ * ```
+ * const routes: RouteConfig[] = [
+ *   {path: '/', component: Home},
+ *   {path: '/users', component: UsersLayout, children: [
+ *     {path: '/', component: Users},
+ *     {path: '/:id', component: User, title: ({match}) => `User ${match.groups.id}`},
+ *   ]},
+ *   {path: '/people/*', redirect: '/users'},
+ * ];
+ *
+ * function App() {
+ *   return useRoutes(routes, {notFound: <NotFound />});
+ * }
+ * ```
+ */
+export function useRoutes(config: RouteConfig[], switchProps: SwitchProps = {}): VNode {
+	const routes = useMemo(() => config.map(createRouteElement), [config]);
+	return <Switch {...switchProps}>{routes}</Switch>;
+}
+
+/**
+ * Component form of `useRoutes()`, takes the same props as `<Switch>`.
+ *
+ * ```
+ * <Routes config={routes} notFound={<NotFound />} />
+ * ```
+ */
+export function Routes({config, ...switchProps}: SwitchProps & {config: RouteConfig[]}) {
+	return useRoutes(config, switchProps);
 }
 
 /**
@@ -155,38 +1508,365 @@ export function Switch({children}: RenderableProps<{}>) {
  *
  * Can also be used as a <Switch> child.
  *
+ * When rendered on a server, it reports its destination and `status` (302 by
+ * default) to the render context passed to `<Router/>`.
+ *
  * ```
  * <Redirect path={/\/something/} to={'/route'} />
+ * <Redirect path="/old" to="/new" status={301} />
  * ```
  */
-export function Redirect({to, state}: {to: string; state?: any; path?: RegExp}) {
+export function Redirect({
+	to,
+	state,
+	status = 302,
+}: {
+	to: string;
+	state?: any;
+	status?: number;
+	path?: RegExp | string;
+}) {
 	const history = useHistory();
-	useLayoutEffect(() => history.replace(to, state), []);
+	const route = useContext(RouteContext);
+	const renderContext = useContext(RenderContextContext);
+	const onError = useAsyncError();
+	const href = route ? resolvePath(to, route.base) : to;
+
+	if (renderContext) {
+		renderContext.status = status;
+		renderContext.redirect = history.createHref(href);
+	}
+
+	useLayoutEffect(() => {
+		history.replace(href, state).catch(onError);
+	}, []);
 	return null;
 }
 
 /**
- * Basic anchor with no styling or active path class support.
+ * Reports response status to the render context passed to `<Router/>` when
+ * rendered on a server. Renders its children.
+ *
+ * ```
+ * <Route path="/*">
+ *   <Status code={404}><NotFound /></Status>
+ * </Route>
+ * ```
+ */
+export function Status({code, children}: RenderableProps<{code: number}>) {
+	const renderContext = useContext(RenderContextContext);
+	if (renderContext) renderContext.status = code;
+	return <Fragment>{children}</Fragment>;
+}
+
+/**
+ * Basic anchor with no styling or active path class support. For that, use
+ * `<NavLink/>`.
+ *
+ * Navigates with history only on plain left clicks on in-app destinations.
+ * Clicks with modifier keys, links with `target` or `download` attributes, and
+ * external URLs are left to the browser. Navigation is also skipped when
+ * `onClick` handler prevents default.
+ *
+ * `preload` is called when link is hovered or focused.
  *
  * ```
  * <Link to={'/users'}>Users</Link> // <a href="/users">Users</a>
+ * <Link to={'/users'} replace>Users</Link> // replaces current history entry
+ * <Link to={'/admin'} preload={Admin.preload}>Admin</Link>
+ * <Link to={'/photos/42'} background>Photo</Link> // opens over current location
  * ```
  */
 export function Link({
 	to,
 	state,
+	replace,
+	background,
+	preload,
+	onClick,
 	children,
 	...rest
-}: RenderableProps<{to: string; state?: any; [key: string]: unknown}>) {
+}: RenderableProps<{
+	to: string;
+	state?: any;
+	replace?: boolean;
+	background?: boolean; // pushes with current location as background, see `pushWithBackground()`
+	preload?: () => unknown;
+	[key: string]: unknown;
+}>) {
 	const history = useHistory();
-	const handleClick = (event: Event) => {
+	const route = useContext(RouteContext);
+	const onError = useAsyncError();
+	const appPath = toAppPath(to, history);
+	const path = appPath != null && route ? resolvePath(appPath, route.base) : appPath;
+	const handleClick = (event: MouseEvent) => {
+		if (typeof onClick === 'function') onClick(event);
+		if (path == null || event.defaultPrevented || isModifiedClick(event)) return;
+		if ((rest.target && rest.target !== '_self') || rest.download != null) return;
 		event.preventDefault();
-		history.push(to, state);
+		const navigation = replace
+			? history.replace(path, state)
+			: background
+			? pushWithBackground(history, path, state)
+			: history.push(path, state);
+		navigation.catch(onError);
+	};
+	const withPreload = (handler: unknown) => (event: Event) => {
+		// Failures are surfaced when the route renders
+		Promise.resolve(preload?.()).catch(() => {});
+		if (typeof handler === 'function') handler(event);
 	};
 
 	return (
-		<a {...rest} href={to} onClick={handleClick}>
+		<a
+			{...rest}
+			href={path == null ? to : history.createHref(path)}
+			onClick={handleClick}
+			onMouseEnter={withPreload(rest.onMouseEnter)}
+			onFocus={withPreload(rest.onFocus)}
+		>
 			{children}
 		</a>
 	);
 }
+
+/**
+ * Link that knows whether its destination is the current location.
+ *
+ * Active link gets `activeClass` added to its class, `activeStyle` merged into
+ * its style, and `aria-current="page"` attribute.
+ *
+ * `match` controls how paths are compared:
+ * - `exact` (default): location path has to equal destination path
+ * - `prefix`: location path has to equal or be nested under destination path
+ * - RegExp: location path has to match the expression
+ *
+ * Search and hash are compared only when `search` or `hash` flags are set.
+ *
+ * ```
+ * <NavLink to="/users" match="prefix" activeClass="-active">Users</NavLink>
+ * ```
+ */
+export function NavLink({
+	to,
+	match = 'exact',
+	search,
+	hash,
+	activeClass = 'active',
+	activeStyle,
+	...rest
+}: RenderableProps<{
+	to: string;
+	match?: 'exact' | 'prefix' | RegExp;
+	search?: boolean;
+	hash?: boolean;
+	activeClass?: string;
+	activeStyle?: {[key: string]: string | number};
+	state?: any;
+	[key: string]: unknown;
+}>) {
+	const [location] = useLocation();
+	const route = useContext(RouteContext);
+	const target = new URL(route ? resolvePath(to, route.base) : to, `http://h.com${location.href}`);
+	const targetPath = normalizePath(target.pathname);
+	const isActive =
+		!location.outsideBasename &&
+		(match === 'exact'
+			? location.path === targetPath
+			: match === 'prefix'
+			? location.path === targetPath || location.path.startsWith(targetPath.replace(/\/?$/, '/'))
+			: match.test(location.path)) &&
+		(!search || location.search === target.search) &&
+		(!hash || location.hash === target.hash);
+
+	if (!isActive) return <Link {...rest} to={to} />;
+
+	const className = [rest.class, rest.className, activeClass].filter(Boolean).join(' ');
+	const style = typeof rest.style === 'object' ? {...rest.style, ...activeStyle} : activeStyle || rest.style;
+
+	return <Link {...rest} to={to} class={className} className={undefined} style={style} aria-current="page" />;
+}
+
+/**
+ * Asks user to confirm leaving current page while `when` is true.
+ *
+ * `message` can be a function that receives the pending transition, and returns
+ * either a message to confirm, or a boolean to allow/cancel the navigation
+ * without asking.
+ *
+ * ```
+ * <Prompt when={isDirty} message="Discard unsaved changes?" />
+ * <Prompt message={({location}) => location.path.startsWith('/form') || 'Discard unsaved changes?'} />
+ * ```
+ */
+export function Prompt({
+	message,
+	when = true,
+}: {
+	message: string | ((transition: Transition) => string | boolean);
+	when?: boolean;
+}) {
+	useBlocker((transition) => {
+		const result = typeof message === 'function' ? message(transition) : message;
+		if (result === true || (typeof result === 'string' && window.confirm(result))) transition.retry();
+		else transition.cancel();
+	}, when);
+	return null;
+}
+
+/**
+ * Panel fixed to the corner of the page, listing latest events recorded by
+ * devtools passed to `<Router devtools>`, newest first. Renders nothing
+ * without them, so it can stay in the tree in production builds.
+ *
+ * ```
+ * <Router history={history} devtools={devtools}>
+ *   <App />
+ *   <DevtoolsOverlay limit={10} />
+ * </Router>
+ * ```
+ */
+export function DevtoolsOverlay({limit = 20}: {limit?: number}) {
+	const devtools = useContext(DevtoolsContext);
+	const [open, setOpen] = useState(true);
+	const [, setNaNToUpdate] = useState(NaN);
+	useLayoutEffect(() => devtools?.subscribe(() => setNaNToUpdate(NaN)), [devtools]);
+
+	if (!devtools) return null;
+
+	const events = devtools.events.slice(-limit).reverse();
+
+	return (
+		<div
+			data-poutr-devtools=""
+			style={{
+				position: 'fixed',
+				right: 0,
+				bottom: 0,
+				zIndex: 2147483647,
+				maxWidth: '40em',
+				maxHeight: '50vh',
+				overflow: 'auto',
+				padding: '.5em',
+				background: 'rgba(0, 0, 0, .8)',
+				color: '#fff',
+				font: '12px/1.4 monospace',
+			}}
+		>
+			<button type="button" onClick={() => setOpen(!open)}>
+				{open ? 'Hide' : 'Router'}
+			</button>
+			{open && (
+				<ol style={{margin: 0, padding: 0, listStyle: 'none'}}>
+					{events.map((event, index) => (
+						<li key={index}>{describeDevtoolsEvent(event)}</li>
+					))}
+				</ol>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Declares named route patterns, and returns their matchers, along with URL
+ * builder, link component, and params hook typed by params of each pattern.
+ *
+ * ```
+ * const routes = defineRoutes({
+ *   home: '/',
+ *   user: '/users/:id/:tab?',
+ * });
+ *
+ * <Route path={routes.paths.user} component={User} />
+ * routes.buildUrl('user', {id: '5'}); // /users/5
+ * <routes.Link route="user" params={{id: '5', tab: 'posts'}}>Posts</routes.Link>
+ *
+ * function User() {
+ *   const {id, tab} = routes.useParams('user'); // {id: string; tab?: string}
+ * }
+ * ```
+ */
+// `P` makes TypeScript infer literal pattern types instead of `string`
+export function defineRoutes<T extends {[name: string]: P}, P extends string>(definitions: T): RouteDefinitionsApi<T> {
+	const paths = {} as {[K in keyof T]: RegExp};
+	for (const name of Object.keys(definitions) as (keyof T)[]) paths[name] = pattern(definitions[name]!);
+
+	function buildUrl(name: string, params?: {}) {
+		const path = definitions[name];
+		if (path == null) throw new Error(`unknown route "${name}"`);
+		return buildPath<string>(path, params);
+	}
+
+	return {
+		paths,
+		buildUrl: buildUrl as RouteDefinitionsApi<T>['buildUrl'],
+		Link: ({route, params, ...rest}: {route: string; params?: {}; [key: string]: unknown}) => (
+			<Link {...rest} to={buildUrl(route, params)} />
+		),
+		useParams: () => useParams(),
+	};
+}
+
+/**
+ * Creates a component that loads its implementation with `importer` when it's
+ * first rendered or preloaded. Loaded module is cached.
+ *
+ * While loading, `loading` component is rendered. Without it, routes wait for
+ * the module to load before rendering, and `<Switch>` keeps the previous route
+ * rendered until then. When loading fails, `error` component is rendered, or
+ * the error is thrown when there's none. Failed modules are retried the next
+ * time they're rendered.
+ *
+ * ```
+ * const Admin = lazyRoute(() => import('./Admin'), {loading: Spinner});
+ *
+ * <Route path="/admin" component={Admin} />
+ * <Link to="/admin" preload={Admin.preload}>Admin</Link>
+ * ```
+ */
+export function lazyRoute<P = RouteProps>(
+	importer: () => Promise<FunctionComponent<P> | {default: FunctionComponent<P>}>,
+	{loading: Loading, error: ErrorComponent}: LazyOptions = {}
+): LazyComponent<P> {
+	let promise: Promise<FunctionComponent<P>> | undefined;
+	let resolved: FunctionComponent<P> | undefined;
+	let failure: unknown;
+
+	function preload() {
+		if (!promise) {
+			failure = undefined;
+			promise = importer().then(
+				(module) => (resolved = 'default' in module ? module.default : module),
+				(error) => {
+					promise = undefined;
+					failure = error;
+					throw error;
+				}
+			);
+		}
+		return promise;
+	}
+
+	function LazyRoute(props: RenderableProps<P>) {
+		const [, setNaNToUpdate] = useState(NaN);
+		// Starts loading (or retries a failed one) when mounted
+		const [loading] = useState(() => (resolved ? undefined : preload()));
+		useLayoutEffect(() => {
+			const update = () => setNaNToUpdate(NaN);
+			loading?.then(update, update);
+		}, []);
+
+		if (resolved) return h(resolved, props);
+		if (failure) {
+			if (ErrorComponent) return <ErrorComponent error={failure} />;
+			throw failure;
+		}
+		return Loading ? <Loading {...props} /> : null;
+	}
+
+	Object.defineProperty(LazyRoute, 'loaded', {get: () => !!resolved});
+	const component = Object.assign(LazyRoute, {preload}) as LazyComponent<P>;
+	if (!Loading) waitedForLazyComponents.add(component);
+
+	return component;
+}
@@ -0,0 +1,185 @@
+import {Location} from './history';
+import {pattern, patternSpecificity} from './pattern';
+import {normalizePath} from './utils';
+
+// Required search params. `true` requires a param to be present and captures
+// its value under its name, strings require exact values, and RegExps have to
+// match values, capturing their named groups.
+export type SearchMatcher = {[key: string]: true | string | RegExp};
+
+export interface RouteMatcher {
+	path: RegExp | string;
+	nested?: boolean; // matches only the beginning of the path
+	search?: SearchMatcher;
+	hash?: string | RegExp; // matched against hash without the `#`, RegExps capture their named groups
+}
+
+// Anything with a path can be matched, other props are carried along as
+// route's metadata. Routes with `children` are nested.
+export interface MatchableRoute extends RouteMatcher {
+	children?: MatchableRoute[];
+}
+
+// Parts of location routes are matched against
+export type MatchedLocation = Pick<Location, 'path' | 'searchParams' | 'hash'>;
+
+// Matched route of a branch, from the root to the deepest one
+export interface RouteMatch<R extends MatchableRoute> {
+	route: R;
+	match: RegExpExecArray;
+	params: {[key: string]: string}; // named groups of this and all ancestor matches
+	base: string; // part of the path matched by this route and its ancestors
+	rest: string; // remainder of the path after the match
+}
+
+export interface MatchRoutesOptions {
+	rank?: boolean; // test routes by specificity of their patterns instead of declaration order
+}
+
+/**
+ * Utils.
+ */
+
+// Compares specificity scores, more specific first. RegExps can't be ranked,
+// and go after patterns.
+function compareSpecificity(a: number[] | null, b: number[] | null) {
+	if (!a || !b) return a ? -1 : b ? 1 : 0;
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		const difference = (b[i] ?? 1) - (a[i] ?? 1);
+		if (difference) return difference;
+	}
+	return 0;
+}
+
+// Returns values captured by search and hash matchers, or `null` when they don't match.
+function matchSearchAndHash({search = {}, hash}: RouteMatcher, location: MatchedLocation) {
+	const captured: {[key: string]: string} = {};
+
+	for (const [key, matcher] of Object.entries(search)) {
+		const value = location.searchParams.get(key);
+		if (value == null) return null;
+		if (matcher === true) {
+			captured[key] = value;
+		} else if (typeof matcher === 'string') {
+			if (value !== matcher) return null;
+		} else {
+			const match = matcher.exec(value);
+			if (!match) return null;
+			Object.assign(captured, match.groups);
+		}
+	}
+
+	if (hash != null) {
+		const value = location.hash.replace(/^#/, '');
+		if (typeof hash === 'string') {
+			if (value !== hash.replace(/^#/, '')) return null;
+		} else {
+			const match = hash.exec(value);
+			if (!match) return null;
+			Object.assign(captured, match.groups);
+		}
+	}
+
+	return captured;
+}
+
+function toMatchedLocation(location: MatchedLocation | string): MatchedLocation {
+	if (typeof location !== 'string') return location;
+	const {pathname, searchParams, hash} = new URL(location, 'http://h.com');
+	return {path: normalizePath(pathname), searchParams, hash};
+}
+
+function rankRoutes<R extends MatchableRoute>(routes: R[]) {
+	const scores = new Map(
+		routes.map((route) => [route, typeof route.path === 'string' ? patternSpecificity(route.path) : null])
+	);
+	return [...routes].sort((a, b) => compareSpecificity(scores.get(a)!, scores.get(b)!));
+}
+
+/**
+ * Returns expression a route path is matched with. Pattern strings of nested
+ * routes only match the beginning of the path.
+ */
+export function routeRegExp(path: unknown, nested?: boolean): RegExp {
+	if (typeof path === 'string') return pattern(path, {end: !nested});
+	if (path && typeof path === 'object' && typeof (path as RegExp).exec === 'function') return path as RegExp;
+	throw new Error(`"path" not a RegExp or a pattern string.`);
+}
+
+/**
+ * Matches a route against a location. Path is matched against `path`, which
+ * defaults to location's path, and has to be passed for routes nested in other
+ * routes. Values captured by `search` and `hash` matchers are merged into
+ * named groups of the returned path match.
+ *
+ * ```
+ * const match = matchRoute({path: '/photos', search: {view: /^(?<view>grid|list)$/}}, location);
+ * match?.groups.view; // 'grid'
+ * ```
+ */
+export function matchRoute(
+	matcher: RouteMatcher,
+	location: MatchedLocation,
+	path: string = location.path
+): RegExpExecArray | null {
+	const match = routeRegExp(matcher.path, matcher.nested).exec(path);
+	if (!match) return null;
+
+	const captured = matcher.search || matcher.hash != null ? matchSearchAndHash(matcher, location) : {};
+	if (!captured) return null;
+	if (Object.keys(captured).length > 0) match.groups = {...match.groups, ...captured};
+
+	return match;
+}
+
+/**
+ * Matches a route tree against a location, or a path, the same way `<Switch>`
+ * and nested `<Route>` components do, without rendering anything. Returns the
+ * matched branch, which is empty when no route matched.
+ *
+ * Routes of each level are tested in declaration order, first match wins, and
+ * its children are matched against the rest of the path. Nested route with no
+ * matching children ends the branch. With `rank`, routes are tested by
+ * specificity of their patterns instead, see `patternSpecificity()`.
+ *
+ * ```
+ * const routes: RouteConfig[] = [{path: '/users', component: Users, children: [{path: '/:id', title: 'User'}]}];
+ * const branch = matchRoutes(routes, '/users/5?tab=posts');
+ * branch.map(({base}) => base); // ['/users', '/users/5']
+ * branch[1].params; // {id: '5'}
+ * branch[1].route.title; // 'User'
+ * ```
+ */
+export function matchRoutes<R extends MatchableRoute>(
+	routes: R[],
+	location: MatchedLocation | string,
+	{rank = false}: MatchRoutesOptions = {}
+): RouteMatch<R>[] {
+	const branch: RouteMatch<R>[] = [];
+	const matchedLocation = toMatchedLocation(location);
+	let level: MatchableRoute[] | undefined = routes;
+	let path = matchedLocation.path;
+	let base = '';
+	let params: {[key: string]: string} = {};
+
+	while (level) {
+		let found: RouteMatch<R> | undefined;
+
+		for (const route of rank ? rankRoutes(level) : level) {
+			const match = matchRoute({...route, nested: route.nested || !!route.children}, matchedLocation, path);
+			if (!match) continue;
+			const matchedEnd = match.index + match[0].length;
+			base = normalizePath(`${base}/${path.slice(0, matchedEnd)}`).replace(/^\/$/, '');
+			params = {...params, ...match.groups};
+			found = {route: route as R, match, params, base, rest: normalizePath(path.slice(matchedEnd))};
+			break;
+		}
+
+		if (!found) break;
+		branch.push(found);
+		path = found.rest;
+		level = found.route.children;
+	}
+
+	return branch;
+}
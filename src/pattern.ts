@@ -0,0 +1,172 @@
+export interface PatternOptions {
+	// Whether pattern has to match the whole path, or only its beginning.
+	end?: boolean;
+	sensitive?: boolean;
+}
+
+// Params object type inferred from a pattern string.
+// Only named params are included, optional ones and wildcards as optional.
+export type PatternParams<P extends string> = Flatten<
+	P extends `${infer Head}/${infer Tail}` ? SegmentParams<Head> & PatternParams<Tail> : SegmentParams<P>
+>;
+
+type Flatten<T> = {[K in keyof T]: T[K]};
+type SegmentParams<S extends string> = S extends `:${infer Name}(${string})?`
+	? {[K in Name]?: string}
+	: S extends `:${infer Name}(${string})`
+	? {[K in Name]: string}
+	: S extends `:${infer Name}?`
+	? {[K in Name]?: string}
+	: S extends `:${infer Name}`
+	? {[K in Name]: string}
+	: S extends `*${infer Name}`
+	? Name extends ''
+		? {}
+		: {[K in Name]?: string}
+	: {};
+
+// Params argument is optional for patterns without required params
+export type PatternParamsArgs<P extends string> = {} extends PatternParams<P>
+	? [params?: PatternParams<P>]
+	: [params: PatternParams<P>];
+
+const PARAM_SEGMENT = /^:(\w+)(?:\((.+)\))?(\?)?$/;
+const WILDCARD_SEGMENT = /^\*(\w+)?$/;
+const cache = new Map<string, RegExp>();
+
+/**
+ * Utils.
+ */
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Splits pattern into segments, ignoring slashes inside param constraints.
+function splitSegments(path: string) {
+	const segments: string[] = [];
+	let segment = '';
+	let depth = 0;
+
+	for (const char of path) {
+		if (char === '(') depth++;
+		if (char === ')') depth--;
+		if (char === '/' && depth === 0) {
+			if (segment) segments.push(segment);
+			segment = '';
+		} else {
+			segment += char;
+		}
+	}
+
+	if (depth !== 0) throw new Error(`unbalanced parentheses in pattern "${path}"`);
+	if (segment) segments.push(segment);
+
+	return segments;
+}
+
+function compileSegment(segment: string) {
+	const param = PARAM_SEGMENT.exec(segment);
+	if (param) {
+		const [, name, constraint = '[^/]+', optional] = param;
+		const source = `\\/(?<${name}>${constraint})`;
+		return optional ? `(?:${source})?` : source;
+	}
+
+	const wildcard = WILDCARD_SEGMENT.exec(segment);
+	if (wildcard) {
+		const [, name] = wildcard;
+		return `(?:\\/(${name ? `?<${name}>` : ''}.*))?`;
+	}
+
+	if (/[:*]/.test(segment[0]!)) throw new Error(`invalid pattern segment "${segment}"`);
+
+	return `\\/${escapeRegExp(segment)}`;
+}
+
+/**
+ * Compiles path pattern into a RegExp with named capture groups, which can be
+ * used anywhere where path expressions are expected.
+ *
+ * ```
+ * pattern('/users/:id'); // /users/5
+ * pattern('/users/:id/:tab?'); // /users/5, /users/5/settings
+ * pattern('/users/:id(\\d+)'); // /users/5, but not /users/john
+ * pattern('/files/*path'); // /files, /files/a/b/c.txt
+ * pattern('/admin', {end: false}); // /admin, /admin/users
+ * ```
+ *
+ * Compiled expressions are cached.
+ */
+export function pattern(path: string, {end = true, sensitive = false}: PatternOptions = {}): RegExp {
+	const key = `${end}:${sensitive}:${path}`;
+	let regexp = cache.get(key);
+
+	if (!regexp) {
+		const source = splitSegments(path).map(compileSegment).join('');
+		regexp = new RegExp(`^${source}${end ? '\\/?$' : '(?=\\/|$)'}`, sensitive ? '' : 'i');
+		cache.set(key, regexp);
+	}
+
+	return regexp;
+}
+
+/**
+ * Returns specificity scores of pattern segments, used to rank patterns that
+ * match the same path. Arrays are compared segment by segment, higher score
+ * wins: static segments score 4, constrained params 3, params 2, optional
+ * params 1, and wildcards 0. Missing segments score 1, so `/users` outranks
+ * `/users/*`, but not `/users/:id`.
+ *
+ * ```
+ * patternSpecificity('/users/new'); // [4, 4]
+ * patternSpecificity('/users/:id(\\d+)'); // [4, 3]
+ * ```
+ */
+export function patternSpecificity(path: string): number[] {
+	return splitSegments(path).map((segment) => {
+		const param = PARAM_SEGMENT.exec(segment);
+		if (param) return param[3] ? 1 : param[2] ? 3 : 2;
+		return WILDCARD_SEGMENT.test(segment) ? 0 : 4;
+	});
+}
+
+/**
+ * Builds a path by filling pattern params with values.
+ *
+ * Param values are URI encoded, and validated against their constraints.
+ * Optional params and wildcards without values are omitted.
+ *
+ * ```
+ * buildPath('/users/:id/:tab?', {id: '5'}); // /users/5
+ * buildPath('/files/*path', {path: 'a/b c.txt'}); // /files/a/b%20c.txt
+ * ```
+ */
+export function buildPath<P extends string>(path: P, ...[params]: PatternParamsArgs<P>): string;
+export function buildPath(path: string, params: {[key: string]: string | undefined} = {}): string {
+	const segments = splitSegments(path).map((segment) => {
+		const param = PARAM_SEGMENT.exec(segment);
+		if (param) {
+			const [, name, constraint, optional] = param;
+			const value = params[name!];
+			if (value == null) {
+				if (optional) return '';
+				throw new Error(`missing value for param "${name}"`);
+			}
+			if (constraint && !new RegExp(`^(?:${constraint})$`).test(value)) {
+				throw new Error(`value "${value}" doesn't match constraint of param "${name}"`);
+			}
+			return `/${encodeURIComponent(value)}`;
+		}
+
+		const wildcard = WILDCARD_SEGMENT.exec(segment);
+		if (wildcard) {
+			const value = wildcard[1] ? params[wildcard[1]] : undefined;
+			return value ? `/${value.split('/').map(encodeURIComponent).join('/')}` : '';
+		}
+
+		return `/${segment}`;
+	});
+
+	return segments.join('') || '/';
+}
@@ -0,0 +1,91 @@
+// Converts between typed values and all values of a search param.
+// `parse` returns `undefined` for missing or invalid values.
+export interface QueryCodec<T> {
+	parse: (values: string[]) => T | undefined;
+	serialize: (value: T) => string | string[];
+}
+
+// Object form is merged into existing params, `null` and `undefined` values
+// remove params. `URLSearchParams` replace all existing params.
+export type SearchParamsUpdate =
+	| URLSearchParams
+	| {[key: string]: string | number | boolean | (string | number | boolean)[] | null | undefined};
+
+/**
+ * Returns new search params with update applied.
+ *
+ * ```
+ * applySearchUpdate(new URLSearchParams('a=1&b=2'), {b: null, c: ['x', 'y']}); // a=1&c=x&c=y
+ * ```
+ */
+export function applySearchUpdate(params: URLSearchParams, update: SearchParamsUpdate): URLSearchParams {
+	if (update instanceof URLSearchParams) return new URLSearchParams(update);
+
+	const result = new URLSearchParams(params);
+	for (const [key, value] of Object.entries(update)) {
+		result.delete(key);
+		if (value == null) continue;
+		for (const item of Array.isArray(value) ? value : [value]) result.append(key, `${item}`);
+	}
+
+	return result;
+}
+
+const string: QueryCodec<string> = {
+	parse: ([value]) => value,
+	serialize: (value) => value,
+};
+
+const number: QueryCodec<number> = {
+	parse: ([value]) => (value === undefined || value.trim() === '' || isNaN(+value) ? undefined : +value),
+	serialize: (value) => `${value}`,
+};
+
+const boolean: QueryCodec<boolean> = {
+	parse: ([value]) =>
+		value === 'true' || value === '1' ? true : value === 'false' || value === '0' ? false : undefined,
+	serialize: (value) => `${value}`,
+};
+
+const date: QueryCodec<Date> = {
+	parse: ([value]) => {
+		const result = value === undefined ? undefined : new Date(value);
+		return result && !isNaN(result.getTime()) ? result : undefined;
+	},
+	serialize: (value) => value.toISOString(),
+};
+
+function json<T = unknown>(): QueryCodec<T> {
+	return {
+		parse: ([value]) => {
+			if (value === undefined) return undefined;
+			try {
+				return JSON.parse(value);
+			} catch {
+				return undefined;
+			}
+		},
+		serialize: (value) => JSON.stringify(value),
+	};
+}
+
+// Array of all values of a param, each parsed by item codec, strings by default.
+function array(): QueryCodec<string[]>;
+function array<T>(codec: QueryCodec<T>): QueryCodec<T[]>;
+function array<T>(codec = string as unknown as QueryCodec<T>): QueryCodec<T[]> {
+	return {
+		parse: (values) => values.map((value) => codec.parse([value])).filter((value): value is T => value !== undefined),
+		serialize: (values) => values.flatMap((value) => codec.serialize(value)),
+	};
+}
+
+/**
+ * Codecs for common search param types.
+ *
+ * ```
+ * useQueryState('page', queryCodecs.number);
+ * useQueryState('tags', queryCodecs.array());
+ * useQueryState('filter', queryCodecs.json<Filter>());
+ * ```
+ */
+export const queryCodecs = {string, number, boolean, date, json, array};
@@ -0,0 +1,12 @@
+/**
+ * Helpers shared by modules, not exported from the package.
+ */
+
+// Ensures single leading slash, and removes duplicate and trailing slashes.
+export function normalizePath(path: string) {
+	return `/${path}`.replace(/\/+/g, '/').replace(/(.)\/+$/, '$1');
+}
+
+export function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+	return typeof (value as any)?.then === 'function';
+}
@@ -1,9 +1,43 @@
 import test from 'ava';
-import {waitFor} from './_utils';
-import {h, render, Fragment} from 'preact';
-import {useContext} from 'preact/hooks';
+import {waitFor, createWindowSubset} from './_utils';
+import {h, render, Fragment, FunctionComponent} from 'preact';
+import {useContext, useErrorBoundary} from 'preact/hooks';
 import * as assert from 'assert/strict';
-import {Router, Route, Switch, Link, Redirect, HistoryContext, createMemoryHistory} from '../src/index';
+import {
+	Router,
+	Route,
+	RouteProps,
+	Switch,
+	Link,
+	NavLink,
+	Redirect,
+	Prompt,
+	HistoryContext,
+	createMemoryHistory,
+	createHashHistory,
+	createBrowserHistory,
+	createStaticHistory,
+	RenderContext,
+	Status,
+	defineRoutes,
+	useLoaderData,
+	useRouteError,
+	useRouteTransition,
+	lazyRoute,
+	Loader,
+	createDevtools,
+	DevtoolsOverlay,
+	MatchEvent,
+	useTitle,
+	renderHead,
+	useRoutes,
+	Routes,
+	RouteConfig,
+	useParams,
+	useBackgroundLocation,
+	useLocation,
+	closeToBackground,
+} from '../src/index';
 
 test(`<Router> provides history to children`, async (t) => {
 	const container = document.createElement('div');
@@ -89,6 +123,52 @@ test(`<Route> renders child function as a component with correct props`, async (
 	t.is(props.match.groups.name, 'foo');
 });
 
+test(`<Route nested> makes descendant routes match the rest of the path`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/admin/users'});
+
+	render(
+		<Router history={history}>
+			<Route path={/^\/admin/} nested>
+				<Route path={/^\/users$/}>users</Route>
+				<Switch>
+					<Route path={/^\/$/}>index</Route>
+					<Route path={/^\/(?<section>\w+)$/}>section</Route>
+				</Switch>
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'userssection'));
+	history.push('/admin');
+	await waitFor(() => assert.equal(container.innerHTML, 'index'));
+	history.push('/users');
+	await waitFor(() => assert.equal(container.innerHTML, ''));
+	t.pass();
+});
+
+test(`<Route nested> can be nested multiple levels deep`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/admin/users/5'});
+
+	render(
+		<Router history={history}>
+			<Route path={/^\/admin/} nested>
+				<Route path={/^\/users/} nested>
+					<Route path={/^\/(?<id>\d+)$/}>
+						<Link to="edit">edit</Link>
+					</Route>
+				</Route>
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.querySelector('a')?.getAttribute('href'), '/admin/users/edit'));
+	t.pass();
+});
+
 test(`<Switch> renders 1st child component with matching path`, async (t) => {
 	const container = document.createElement('div');
 	const history = createMemoryHistory({initial: '/bar'});
@@ -105,10 +185,645 @@ test(`<Switch> renders 1st child component with matching path`, async (t) => {
 		container
 	);
 
-	await waitFor(() => assert.equal(container.innerHTML, 'bar'));
-	history.push('/baz');
-	await waitFor(() => assert.equal(container.innerHTML, 'baz'));
-	t.pass();
+	await waitFor(() => assert.equal(container.innerHTML, 'bar'));
+	history.push('/baz');
+	await waitFor(() => assert.equal(container.innerHTML, 'baz'));
+	t.pass();
+});
+
+test(`<Route> and <Switch> accept pattern strings as paths`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5'});
+
+	render(
+		<Router history={history}>
+			<Switch>
+				<Route path="/users/:id(\d+)">{({match}: RouteProps) => match.groups?.id}</Route>
+				<Route path="/users/:name">name</Route>
+			</Switch>
+			<Route path="/users" nested>
+				<Route path="/:id">nested</Route>
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, '5nested'));
+	history.push('/users/john');
+	await waitFor(() => assert.equal(container.innerHTML, 'namenested'));
+	t.pass();
+});
+
+test(`<Route> and <Switch> don't match locations outside of basename`, async (t) => {
+	const container = document.createElement('div');
+	const window = createWindowSubset();
+	window.history.replaceState(null, '', '/other/foo');
+	const history = createBrowserHistory({window, basename: '/app'});
+
+	render(
+		<Router history={history}>
+			<Switch>
+				<Route path="/other/foo">switch</Route>
+				<Route path="/*">any</Route>
+			</Switch>
+			<Route path="/*">route</Route>
+		</Router>,
+		container
+	);
+
+	await new Promise((resolve) => setTimeout(resolve, 10));
+	t.is(container.innerHTML, '');
+	history.push('/foo');
+	await waitFor(() => assert.equal(container.innerHTML, 'anyroute'));
+	t.is(window.location.pathname, '/app/foo');
+});
+
+test(`<Route loader> renders after loader resolves with its data`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5'});
+	let resolve: (value: string) => void = () => {};
+	let loaderArgs: any;
+	const loader: Loader = (args) => {
+		loaderArgs = args;
+		return new Promise((r) => (resolve = r));
+	};
+
+	function User() {
+		return <Fragment>{useLoaderData<string>()}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Route path="/users/:id" loader={loader} component={User} />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.ok(loaderArgs));
+	t.is(container.innerHTML, '');
+	t.is(loaderArgs.match.groups.id, '5');
+	t.is(loaderArgs.location, history.location);
+	t.true(loaderArgs.signal instanceof AbortSignal);
+	resolve('john');
+	await waitFor(() => assert.equal(container.innerHTML, 'john'));
+	t.pass();
+});
+
+test(`<Switch> keeps previous route rendered until loader of the next one resolves`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	const pending: {resolve: (value: string) => void; signal: AbortSignal; id: string}[] = [];
+	const loader: Loader = ({match, signal}) =>
+		new Promise((resolve) => pending.push({resolve, signal, id: match.groups!.id!}));
+
+	function User() {
+		return <Fragment>{useLoaderData<string>()}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Switch>
+				<Route path="/foo">foo</Route>
+				<Route path="/users/:id" loader={loader} component={User} />
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'foo'));
+	history.push('/users/1');
+	await waitFor(() => assert.equal(pending.length, 1));
+	t.is(container.innerHTML, 'foo');
+	history.push('/users/2');
+	await waitFor(() => assert.equal(pending.length, 2));
+	t.true(pending[0]!.signal.aborted);
+	pending[0]!.resolve('first');
+	pending[1]!.resolve('second');
+	await waitFor(() => assert.equal(container.innerHTML, 'second'));
+	history.push('/foo');
+	await waitFor(() => assert.equal(container.innerHTML, 'foo'));
+	t.is(pending.length, 2);
+});
+
+test(`<Route guard> guards navigations to the route`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/'});
+	let loggedIn = false;
+	const guards: string[] = [];
+
+	render(
+		<Router history={history}>
+			<Route path="/users" nested>
+				<Route
+					path="/:id"
+					guard={({match, from}) => {
+						guards.push(`${from.path} ${match.groups?.id}`);
+						return loggedIn || '/login';
+					}}
+				>
+					user
+				</Route>
+			</Route>
+			<Route path="/login">login</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, ''));
+	history.push('/users/5');
+	await waitFor(() => assert.equal(container.innerHTML, 'login'));
+	t.is(history.location.path, '/login');
+	loggedIn = true;
+	history.push('/users/6');
+	await waitFor(() => assert.equal(container.innerHTML, 'user'));
+	t.deepEqual(guards, ['/ 5', '/login 6']);
+});
+
+test(`<Switch> runs guard of the route matching destination`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/'});
+	let resolve: (value: boolean) => void = () => {};
+
+	render(
+		<Router history={history}>
+			<Switch>
+				<Route path="/foo" guard={() => new Promise<boolean>((r) => (resolve = r))}>
+					foo
+				</Route>
+				<Route path="/bar" guard={() => false}>
+					bar
+				</Route>
+				<Route path="/">home</Route>
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'home'));
+	history.push('/foo');
+	t.is(history.location.path, '/');
+	resolve(false);
+	await new Promise((resolve) => setTimeout(resolve, 10));
+	t.is(container.innerHTML, 'home');
+	history.push('/foo');
+	resolve(true);
+	await waitFor(() => assert.equal(container.innerHTML, 'foo'));
+	history.push('/bar');
+	t.is(history.location.path, '/foo');
+});
+
+test(`<Route guard> runs before rendering at initial location, and can cancel it`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+
+	render(
+		<Router history={history}>
+			<Route path="/foo" guard={() => false}>
+				foo
+			</Route>
+			<Route path="/:any" guard={({action}) => action === 'POP'}>
+				any
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'any'));
+	t.pass();
+});
+
+test(`<Route guard> errors are thrown when rendering the route`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/'});
+
+	function Boundary({children}: {children?: any}) {
+		const [error] = useErrorBoundary();
+		return error ? <Fragment>{error.message}</Fragment> : children;
+	}
+
+	render(
+		<Router history={history}>
+			<Boundary>
+				<Switch>
+					<Route
+						path="/foo"
+						guard={() => {
+							throw new Error('failed');
+						}}
+					>
+						foo
+					</Route>
+				</Switch>
+			</Boundary>
+		</Router>,
+		container
+	);
+
+	history.push('/foo');
+	t.is(history.location.path, '/foo');
+	await waitFor(() => assert.equal(container.innerHTML, 'failed'));
+});
+
+test(`<Route errorElement> renders when loader fails, and retries on navigation`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/user'});
+	let fail = true;
+
+	function UserError() {
+		return <Fragment>{useRouteError<Error>().message}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Route
+				path="/user"
+				loader={() => (fail ? Promise.reject(new Error('failed')) : 'john')}
+				errorElement={<UserError />}
+				component={() => <Fragment>{useLoaderData()}</Fragment>}
+			/>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'failed'));
+	fail = false;
+	history.replace(history.location.href);
+	await waitFor(() => assert.equal(container.innerHTML, 'john'));
+	t.pass();
+});
+
+test(`<Route errorElement> catches errors of its content until location changes`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+
+	function Thrower({match}: RouteProps) {
+		if (match.groups?.id === 'foo') throw new Error('failed');
+		return <Fragment>{match.groups?.id}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Route path="/:id" errorElement={<Fragment>{'error'}</Fragment>} component={Thrower} />
+			<Route path="/*">sibling</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'errorsibling'));
+	history.push('/bar');
+	await waitFor(() => assert.equal(container.innerHTML, 'barsibling'));
+	t.pass();
+});
+
+test(`<Switch errorElement> catches errors of routes without their own errorElement`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+
+	function SwitchError() {
+		return <Fragment>{`switch ${useRouteError<Error>().message}`}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Switch errorElement={<SwitchError />}>
+				<Route path="/foo" loader={() => Promise.reject(new Error('foo'))}>
+					foo
+				</Route>
+				<Route
+					path="/bar"
+					loader={() => Promise.reject(new Error('bar'))}
+					errorElement={<Fragment>route error</Fragment>}
+				>
+					bar
+				</Route>
+				<Route path="/baz">baz</Route>
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'switch foo'));
+	history.push('/bar');
+	await waitFor(() => assert.equal(container.innerHTML, 'route error'));
+	history.push('/baz');
+	await waitFor(() => assert.equal(container.innerHTML, 'baz'));
+	t.pass();
+});
+
+test(`<Switch notFound> renders when no route matches, and reports 404`, async (t) => {
+	const container = document.createElement('div');
+	const context: RenderContext = {};
+
+	render(
+		<Router history={createStaticHistory('/missing')} context={context}>
+			<Switch notFound={<Fragment>not found</Fragment>}>
+				<Route path="/foo">foo</Route>
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'not found'));
+	t.deepEqual(context, {status: 404});
+});
+
+test(`<Switch transition> keeps outgoing route rendered while transitioning`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+
+	function Page({match}: RouteProps) {
+		const transition = useRouteTransition();
+		return <Fragment>{`[${match[0]} ${transition?.phase} ${transition?.action}]`}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Switch transition={{duration: 50}}>
+				<Route path="/:page" component={Page} />
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, '[/foo entered POP]'));
+	history.push('/bar');
+	await waitFor(() => assert.equal(container.innerHTML, '[/foo exiting POP][/bar entering PUSH]'));
+	await waitFor(() => assert.equal(container.innerHTML, '[/bar entered PUSH]'));
+	history.back();
+	await waitFor(() => assert.equal(container.innerHTML, '[/bar exiting PUSH][/foo entering POP]'));
+	await waitFor(() => assert.equal(container.innerHTML, '[/foo entered POP]'));
+	t.pass();
+});
+
+test(`<Switch transition> swaps routes within view transitions when supported`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	const updates: Promise<void>[] = [];
+	(document as any).startViewTransition = (update: () => Promise<void>) => updates.push(update());
+
+	try {
+		render(
+			<Router history={history}>
+				<Switch transition={{viewTransition: true}}>
+					<Route path="/foo">foo</Route>
+					<Route path="/bar">bar</Route>
+				</Switch>
+			</Router>,
+			container
+		);
+
+		await waitFor(() => assert.equal(container.innerHTML, 'foo'));
+		history.push('/bar');
+		await waitFor(() => assert.equal(container.innerHTML, 'bar'));
+		t.is(updates.length, 1);
+		await updates[0];
+	} finally {
+		delete (document as any).startViewTransition;
+	}
+});
+
+test(`lazyRoute() renders loading component until module loads, and caches it`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	let resolve: (module: {default: FunctionComponent<RouteProps>}) => void = () => {};
+	let imports = 0;
+	const Foo = lazyRoute(
+		() => {
+			imports++;
+			return new Promise<{default: FunctionComponent<RouteProps>}>((r) => (resolve = r));
+		},
+		{loading: () => <Fragment>loading</Fragment>}
+	);
+
+	render(
+		<Router history={history}>
+			<Switch>
+				<Route path="/foo" component={Foo} />
+				<Route path="/bar">bar</Route>
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'loading'));
+	t.false(Foo.loaded);
+	resolve({default: ({location}: RouteProps) => <Fragment>{location.path}</Fragment>});
+	await waitFor(() => assert.equal(container.innerHTML, '/foo'));
+	t.true(Foo.loaded);
+	history.push('/bar');
+	await waitFor(() => assert.equal(container.innerHTML, 'bar'));
+	history.push('/foo');
+	await waitFor(() => assert.equal(container.innerHTML, '/foo'));
+	t.is(imports, 1);
+});
+
+test(`lazyRoute() without loading component makes <Switch> keep previous route`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/bar'});
+	let resolve: (component: FunctionComponent<RouteProps>) => void = () => {};
+	const Foo = lazyRoute(() => new Promise<FunctionComponent<RouteProps>>((r) => (resolve = r)));
+
+	render(
+		<Router history={history}>
+			<Switch>
+				<Route path="/foo" component={Foo} />
+				<Route path="/bar">bar</Route>
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'bar'));
+	history.push('/foo');
+	await new Promise((resolve) => setTimeout(resolve, 50));
+	t.is(container.innerHTML, 'bar');
+	resolve(() => <Fragment>foo</Fragment>);
+	await waitFor(() => assert.equal(container.innerHTML, 'foo'));
+});
+
+test(`lazyRoute() renders error component, and retries on next render`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	let shouldFail = true;
+	const Foo = lazyRoute(
+		async () => {
+			if (shouldFail) throw new Error('failed');
+			return () => <Fragment>foo</Fragment>;
+		},
+		{
+			loading: () => <Fragment>loading</Fragment>,
+			error: ({error}) => <Fragment>{(error as Error).message}</Fragment>,
+		}
+	);
+
+	render(
+		<Router history={history}>
+			<Route path="/foo" component={Foo} />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'failed'));
+	shouldFail = false;
+	history.push('/bar');
+	await waitFor(() => assert.equal(container.innerHTML, ''));
+	history.push('/foo');
+	await waitFor(() => assert.equal(container.innerHTML, 'foo'));
+	t.pass();
+});
+
+test(`<Link> navigates only on plain left clicks on in-app destinations`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	const prevented: boolean[] = [];
+
+	render(
+		<Router history={history}>
+			<Link to="/bar">plain</Link>
+			<Link to="/bar" target="_blank">
+				blank
+			</Link>
+			<Link to="/bar" download>
+				download
+			</Link>
+			<Link to="https://other.com/bar">external</Link>
+			<Link to="mailto:foo@example.com">mail</Link>
+			<Link to="https://example.com/baz?a#b">same origin</Link>
+		</Router>,
+		container
+	);
+
+	// Record whether link prevented default, and prevent it so jsdom doesn't navigate
+	container.addEventListener('click', (event) => {
+		prevented.push(event.defaultPrevented);
+		event.preventDefault();
+	});
+	const click = (index: number, init: MouseEventInit = {}) => {
+		const event = new window.MouseEvent('click', {bubbles: true, cancelable: true, ...init});
+		container.querySelectorAll('a')[index]!.dispatchEvent(event);
+	};
+
+	const anchors = container.querySelectorAll('a');
+	t.is(anchors[3]!.getAttribute('href'), 'https://other.com/bar');
+	t.is(anchors[5]!.getAttribute('href'), '/baz?a#b');
+	click(0, {ctrlKey: true});
+	click(0, {metaKey: true});
+	click(0, {shiftKey: true});
+	click(0, {button: 1});
+	click(1);
+	click(2);
+	click(3);
+	click(4);
+	t.is(history.location.path, '/foo');
+	t.deepEqual(prevented, [false, false, false, false, false, false, false, false]);
+	click(0);
+	t.is(history.location.path, '/bar');
+	click(5);
+	t.is(history.location.href, '/baz?a#b');
+	t.deepEqual(prevented.slice(-2), [true, true]);
+});
+
+test(`<Link> treats absolute URLs outside of history's basename as external`, async (t) => {
+	const container = document.createElement('div');
+	const history = createBrowserHistory({window: createWindowSubset('/app'), basename: '/app'});
+
+	render(
+		<Router history={history}>
+			<Link to="https://example.com/app/foo?a#b">in app</Link>
+			<Link to="https://example.com/other">outside</Link>
+		</Router>,
+		container
+	);
+
+	container.addEventListener('click', (event) => event.preventDefault());
+	const anchors = container.querySelectorAll('a');
+	t.is(anchors[0]!.getAttribute('href'), '/app/foo?a#b');
+	t.is(anchors[1]!.getAttribute('href'), 'https://example.com/other');
+	anchors[1]!.click();
+	t.is(history.location.path, '/');
+	anchors[0]!.click();
+	t.is(history.location.href, '/foo?a#b');
+});
+
+test(`<Link> calls onClick, and respects its defaultPrevented`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	let prevent = true;
+	let clicks = 0;
+
+	render(
+		<Router history={history}>
+			<Link
+				to="/bar"
+				onClick={(event: Event) => {
+					clicks++;
+					if (prevent) event.preventDefault();
+				}}
+			>
+				bar
+			</Link>
+		</Router>,
+		container
+	);
+
+	container.querySelector('a')?.click();
+	t.is(history.location.path, '/foo');
+	prevent = false;
+	container.querySelector('a')?.click();
+	t.is(history.location.path, '/bar');
+	t.is(clicks, 2);
+});
+
+test(`<Link replace> replaces current history entry`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+
+	render(
+		<Router history={history}>
+			<Link to="/bar" replace>
+				bar
+			</Link>
+		</Router>,
+		container
+	);
+
+	container.querySelector('a')?.click();
+	t.is(history.location.path, '/bar');
+	t.is(history.length, 1);
+});
+
+test(`<Link> renders href created by history`, async (t) => {
+	const container = document.createElement('div');
+	const history = createHashHistory({window: createWindowSubset()});
+
+	render(
+		<Router history={history}>
+			<Link to="/bar?baz">bar</Link>
+		</Router>,
+		container
+	);
+
+	t.is(container.querySelector('a')?.getAttribute('href'), '#/bar?baz');
+});
+
+test(`<Link> calls preload when hovered or focused`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	const calls: string[] = [];
+
+	render(
+		<Router history={history}>
+			<Link to="/bar" preload={() => calls.push('preload')} onFocus={() => calls.push('focus')}>
+				bar
+			</Link>
+		</Router>,
+		container
+	);
+
+	const anchor = container.querySelector('a')!;
+	anchor.dispatchEvent(new window.Event('mouseenter'));
+	anchor.dispatchEvent(new window.Event('focus'));
+	t.deepEqual(calls, ['preload', 'preload', 'focus']);
 });
 
 test(`<Link> renders an anchor that navigates to its destination`, async (t) => {
@@ -135,6 +850,56 @@ test(`<Link> renders an anchor that navigates to its destination`, async (t) =>
 	t.pass();
 });
 
+test(`<Link> passes navigation errors to error boundaries`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	history.guard(() => {
+		throw new Error('guard boom');
+	});
+
+	function LinkError() {
+		return <Fragment>{useRouteError<Error>().message}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Route path="/foo" errorElement={<LinkError />}>
+				<Link to="/bar">bar</Link>
+			</Route>
+		</Router>,
+		container
+	);
+
+	container.querySelector('a')?.click();
+	await waitFor(() => assert.equal(container.innerHTML, 'guard boom'));
+	t.is(history.location.path, '/foo');
+});
+
+test(`<Link> resolves relative destinations against parent nested route`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/admin'});
+
+	render(
+		<Router history={history}>
+			<Route path={/^\/admin/} nested>
+				<Link to="users?page=2">users</Link>
+				<Link to="../home">home</Link>
+				<Link to="/root">root</Link>
+			</Route>
+		</Router>,
+		container
+	);
+
+	let hrefs: (string | null)[] = [];
+	await waitFor(() => {
+		hrefs = [...container.querySelectorAll('a')].map((anchor) => anchor.getAttribute('href'));
+		assert.equal(hrefs.length, 3);
+	});
+	t.deepEqual(hrefs, ['/admin/users?page=2', '/home', '/root']);
+	container.querySelector('a')?.click();
+	t.is(history.location.href, '/admin/users?page=2');
+});
+
 test(`<Link> accepts any properties and passes them to anchor`, async (t) => {
 	const container = document.createElement('div');
 	const history = createMemoryHistory({initial: '/foo'});
@@ -156,6 +921,66 @@ test(`<Link> accepts any properties and passes them to anchor`, async (t) => {
 	t.is(linkElement.className, 'foo');
 });
 
+test(`<NavLink> marks itself active when its destination is current location`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users'});
+
+	render(
+		<Router history={history}>
+			<NavLink to="/users" class="link" activeClass="-active" activeStyle={{color: 'red'}} style={{margin: 0}}>
+				users
+			</NavLink>
+		</Router>,
+		container
+	);
+
+	const anchor = container.querySelector('a')!;
+	await waitFor(() => assert.equal(anchor.className, 'link -active'));
+	t.is(anchor.getAttribute('aria-current'), 'page');
+	t.is(anchor.style.color, 'red');
+	t.is(anchor.style.margin, '0px');
+	history.push('/users/5');
+	await waitFor(() => assert.equal(anchor.className, 'link'));
+	t.is(anchor.getAttribute('aria-current'), null);
+	t.is(anchor.style.color, '');
+});
+
+test(`<NavLink> supports prefix, RegExp, search, and hash matching`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5?tab=posts#top'});
+
+	render(
+		<Router history={history}>
+			<NavLink to="/users" match="prefix">
+				prefix
+			</NavLink>
+			<NavLink to="/use" match="prefix">
+				partial
+			</NavLink>
+			<NavLink to="/users/5" match={/^\/users\/\d+$/}>
+				regexp
+			</NavLink>
+			<NavLink to="/users/5?tab=posts" search>
+				search
+			</NavLink>
+			<NavLink to="/users/5?tab=info" search>
+				other search
+			</NavLink>
+			<NavLink to="/users/5#top" hash>
+				hash
+			</NavLink>
+		</Router>,
+		container
+	);
+
+	let active: string[] = [];
+	await waitFor(() => {
+		active = [...container.querySelectorAll('a.active')].map((anchor) => anchor.textContent || '');
+		assert.ok(active.length > 0);
+	});
+	t.deepEqual(active, ['prefix', 'regexp', 'search', 'hash']);
+});
+
 test(`<Redirect> replaces current page when rendered`, async (t) => {
 	const container = document.createElement('div');
 	const history = createMemoryHistory({initial: '/foo'});
@@ -199,3 +1024,438 @@ test(`<Redirect> should work as a switch child`, async (t) => {
 	await waitFor(() => assert.equal(container.innerHTML, 'baz'));
 	t.is(history.length, 2);
 });
+
+test(`<Prompt> blocks navigation based on its message`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+
+	render(
+		<Router history={history}>
+			<Prompt message={({location}) => location.path !== '/bar'} />
+		</Router>,
+		container
+	);
+
+	history.push('/bar');
+	t.is(history.location.path, '/foo');
+	history.push('/baz');
+	t.is(history.location.path, '/baz');
+});
+
+test(`<Prompt> stops blocking when "when" is false`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+
+	function App({when}: {when: boolean}) {
+		return (
+			<Router history={history}>
+				<Prompt when={when} message={() => false} />
+			</Router>
+		);
+	}
+
+	render(<App when={true} />, container);
+	history.push('/bar');
+	t.is(history.location.path, '/foo');
+	render(<App when={false} />, container);
+	history.push('/bar');
+	t.is(history.location.path, '/bar');
+});
+
+test(`defineRoutes() returns matchers and typed url builders`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5'});
+	const routes = defineRoutes({home: '/', user: '/users/:id/:tab?'});
+
+	function User() {
+		const {id, tab} = routes.useParams('user');
+		return <Fragment>{`${id}:${tab || ''}`}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Route path={routes.paths.user} component={User} />
+			<routes.Link route="user" params={{id: '6', tab: 'posts'}}>
+				user
+			</routes.Link>
+			<routes.Link route="home">home</routes.Link>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.querySelector('a')?.getAttribute('href'), '/users/6/posts'));
+	t.is(container.querySelectorAll('a')[1]?.getAttribute('href'), '/');
+	t.is(routes.buildUrl('user', {id: '7'}), '/users/7');
+	t.is(routes.buildUrl('home'), '/');
+	container.querySelector('a')?.click();
+	await waitFor(() => assert.match(container.innerHTML, /^6:posts/));
+
+	// @ts-expect-error
+	t.throws(() => routes.buildUrl('user'));
+	// @ts-expect-error
+	t.throws(() => routes.buildUrl('missing'), {message: 'unknown route "missing"'});
+	// @ts-expect-error
+	const linkWithoutParams = <routes.Link route="user">user</routes.Link>;
+	// @ts-expect-error
+	const linkWithWrongParams = <routes.Link route="user" params={{user: '5'}} />;
+	t.truthy(linkWithoutParams && linkWithWrongParams);
+});
+
+test(`<Redirect> and <Status> report to render context`, async (t) => {
+	const container = document.createElement('div');
+	const history = createStaticHistory('/old');
+	const context: RenderContext = {};
+
+	render(
+		<Router history={history} context={context}>
+			<Switch>
+				<Redirect path="/old" to="/new" status={301} />
+				<Route path="/*">
+					<Status code={404}>not found</Status>
+				</Route>
+			</Switch>
+		</Router>,
+		container
+	);
+
+	t.deepEqual(context, {status: 301, redirect: '/new'});
+
+	const notFoundContext: RenderContext = {};
+	render(
+		<Router history={createStaticHistory('/missing')} context={notFoundContext}>
+			<Route path="/*">
+				<Status code={404}>not found</Status>
+			</Route>
+		</Router>,
+		document.createElement('div')
+	);
+
+	t.deepEqual(notFoundContext, {status: 404});
+});
+
+test(`<Switch> records tested routes to devtools`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5'});
+	const devtools = createDevtools(history, {target: null});
+
+	render(
+		<Router history={history} devtools={devtools}>
+			<Switch>
+				<Route path="/">home</Route>
+				<Route path="/users/:id">user</Route>
+				<Route path={/^\/about/}>about</Route>
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(devtools.events.length, 1));
+	const event = devtools.events[0] as MatchEvent;
+	t.is(event.path, '/users/5');
+	t.deepEqual(
+		event.candidates.map(({index, path, match}) => [index, path, !!match]),
+		[
+			[0, '/', false],
+			[1, '/users/:id', true],
+		]
+	);
+	t.is(event.matched?.match?.groups?.id, '5');
+
+	history.push('/about');
+	await waitFor(() => assert.equal(devtools.events.length, 3));
+	t.is(devtools.events[1]!.type, 'navigation');
+	t.is((devtools.events[2] as MatchEvent).matched?.path, '^\\/about');
+});
+
+test(`<DevtoolsOverlay> lists recorded events`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory();
+	const devtools = createDevtools(history, {target: null});
+
+	render(
+		<Router history={history} devtools={devtools}>
+			<Switch>
+				<Route path="/foo">foo</Route>
+			</Switch>
+			<DevtoolsOverlay />
+		</Router>,
+		container
+	);
+
+	history.push('/foo');
+	await waitFor(() => assert.match(container.textContent || '', /PUSH \/ → \/foo/));
+	t.regex(container.textContent || '', /match \/foo: #0 \/foo ✓/);
+});
+
+test(`<DevtoolsOverlay> renders nothing without devtools`, async (t) => {
+	const container = document.createElement('div');
+	render(
+		<Router history={createMemoryHistory()}>
+			<DevtoolsOverlay />
+		</Router>,
+		container
+	);
+	t.is(container.innerHTML, '');
+});
+
+test.serial(`<Route> title and meta are set by the deepest matched route, and restored`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5'});
+	const getMeta = (name: string) => document.head.querySelector(`meta[name="${name}"]`)?.getAttribute('content');
+	const existing = document.createElement('meta');
+	existing.setAttribute('name', 'robots');
+	existing.setAttribute('content', 'index');
+	document.head.appendChild(existing);
+	document.title = 'App';
+
+	render(
+		<Router history={history}>
+			<Route path="/users" nested title="Users" meta={{description: 'Users', robots: 'noindex'}}>
+				<Route path="/:id" title={({match}) => `User ${match.groups!.id}`} meta={{description: undefined}}>
+					user
+				</Route>
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(document.title, 'User 5'));
+	t.is(getMeta('description'), 'Users');
+	t.is(getMeta('robots'), 'noindex');
+
+	history.push('/users');
+	await waitFor(() => assert.equal(document.title, 'Users'));
+
+	history.push('/about');
+	await waitFor(() => assert.equal(document.title, 'App'));
+	t.is(getMeta('description'), undefined);
+	t.is(getMeta('robots'), 'index');
+
+	render(null, container);
+	existing.remove();
+});
+
+test.serial(`useTitle() takes precedence over route titles`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	document.title = 'App';
+
+	function Foo({title}: {title?: string}) {
+		useTitle(title);
+		return null;
+	}
+
+	render(
+		<Router history={history}>
+			<Route path="/foo" title="Route">
+				<Foo title="Hook" />
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(document.title, 'Hook'));
+
+	render(
+		<Router history={history}>
+			<Route path="/foo" title="Route">
+				<Foo />
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(document.title, 'Route'));
+	render(null, container);
+	t.is(document.title, 'App');
+});
+
+test.serial(`<Route> title and meta are collected to render context`, async (t) => {
+	const context: RenderContext = {};
+	document.title = 'App';
+
+	function User() {
+		useTitle('Hook');
+		return null;
+	}
+
+	render(
+		<Router history={createStaticHistory('/users/5')} context={context}>
+			<Route path="/users" nested title="Users" meta={{description: 'All <users>'}}>
+				<Route path="/:id" title="User" component={User} />
+			</Route>
+			<Route path="/*" title="Fallback" />
+		</Router>,
+		document.createElement('div')
+	);
+
+	t.deepEqual(context, {title: 'Hook', meta: {description: 'All <users>'}});
+	t.is(renderHead(context), '<title>Hook</title><meta name="description" content="All &#60;users&#62;">');
+	t.is(document.title, 'App');
+});
+
+test(`<Routes> renders matching route of a config tree`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5'});
+
+	function Layout({children}: RouteProps<{children?: any}>) {
+		return <main>{children}</main>;
+	}
+
+	function User() {
+		const {id} = useParams<{id: string}>();
+		return <Fragment>user {id}</Fragment>;
+	}
+
+	const config: RouteConfig[] = [
+		{path: '/', component: () => <Fragment>home</Fragment>},
+		{
+			path: '/users',
+			component: Layout,
+			children: [
+				{path: '/', component: () => <Fragment>users</Fragment>},
+				{path: '/:id', component: User},
+			],
+		},
+		{path: '/people/*', redirect: '/users'},
+	];
+
+	render(
+		<Router history={history}>
+			<Routes config={config} notFound="not found" />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, '<main>user 5</main>'));
+	history.push('/users');
+	await waitFor(() => assert.equal(container.innerHTML, '<main>users</main>'));
+	history.push('/people/5');
+	await waitFor(() => assert.equal(history.location.path, '/users'));
+	history.push('/');
+	await waitFor(() => assert.equal(container.innerHTML, 'home'));
+	history.push('/missing');
+	await waitFor(() => assert.equal(container.innerHTML, 'not found'));
+	t.pass();
+});
+
+test.serial(`useRoutes() renders nested routes without components`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/admin/settings'});
+	const config: RouteConfig[] = [
+		{path: '/admin', title: 'Admin', children: [{path: '/settings', component: () => <Fragment>settings</Fragment>}]},
+	];
+
+	function App() {
+		return useRoutes(config);
+	}
+
+	render(
+		<Router history={history}>
+			<App />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'settings'));
+	t.is(document.title, 'Admin');
+	render(null, container);
+});
+
+test(`<Switch> matches routes by search params and hash, and merges captured values into params`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5?view=grid'});
+
+	function Params() {
+		return <Fragment>{JSON.stringify(useParams())}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Switch>
+				<Route path="/users/:id" search={{view: 'grid', page: true}}>
+					paged <Params />
+				</Route>
+				<Route path="/users/:id" search={{view: 'grid'}}>
+					grid <Params />
+				</Route>
+				<Route path="/users/:id" hash={/^(?<tab>posts|likes)$/}>
+					tab <Params />
+				</Route>
+				<Route path="/users/:id">user</Route>
+			</Switch>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.textContent, 'grid {"id":"5"}'));
+	history.push('/users/5?view=grid&page=2');
+	await waitFor(() => assert.equal(container.textContent, 'paged {"id":"5","page":"2"}'));
+	history.push('/users/5#likes');
+	await waitFor(() => assert.equal(container.textContent, 'tab {"id":"5","tab":"likes"}'));
+	history.push('/users/5#other');
+	await waitFor(() => assert.equal(container.textContent, 'user'));
+	t.pass();
+});
+
+test(`<Route> matches search params outside of switch`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/photos'});
+
+	render(
+		<Router history={history}>
+			<Route path="/photos" search={{modal: true}}>
+				{({match}: RouteProps) => `modal ${match.groups?.modal}`}
+			</Route>
+		</Router>,
+		container
+	);
+
+	t.is(container.innerHTML, '');
+	history.push('/photos?modal=42');
+	await waitFor(() => assert.equal(container.innerHTML, 'modal 42'));
+	t.pass();
+});
+
+test(`<Switch location> keeps rendering background location under modal routes`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/feed'});
+	let feedLoads = 0;
+
+	function Feed() {
+		const [location] = useLocation();
+		return <Link to="/photos/42" background>{`feed ${location.path}`}</Link>;
+	}
+
+	function App() {
+		const background = useBackgroundLocation();
+		return (
+			<Fragment>
+				<Switch location={background || undefined}>
+					<Route path="/feed" loader={() => feedLoads++} component={Feed} />
+					<Route path="/photos/:id">{({match}: RouteProps) => `page ${match.groups!.id}`}</Route>
+				</Switch>
+				{background && <Route path="/photos/:id">{({match}: RouteProps) => ` modal ${match.groups!.id}`}</Route>}
+			</Fragment>
+		);
+	}
+
+	render(
+		<Router history={history}>
+			<App />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.textContent, 'feed /feed'));
+	container.querySelector('a')!.click();
+	await waitFor(() => assert.equal(container.textContent, 'feed /feed modal 42'));
+	t.is(history.location.path, '/photos/42');
+
+	await closeToBackground(history);
+	await waitFor(() => assert.equal(container.textContent, 'feed /feed'));
+	t.is(feedLoads, 1);
+
+	history.push('/photos/42');
+	await waitFor(() => assert.equal(container.textContent, 'page 42'));
+});
@@ -0,0 +1,55 @@
+import test from 'ava';
+import {createDevtools, createMemoryHistory, NavigationEvent} from '../src/index';
+
+test(`createDevtools() records history changes`, (t) => {
+	const history = createMemoryHistory();
+	const devtools = createDevtools(history, {target: null});
+	history.push('/foo', {bar: 1});
+	history.replace('/baz');
+	const [push, replace] = devtools.events as NavigationEvent[];
+	t.is(devtools.events.length, 2);
+	t.is(push!.action, 'PUSH');
+	t.is(push!.from?.path, '/');
+	t.is(push!.location.path, '/foo');
+	t.deepEqual(push!.state, {bar: 1});
+	t.is(push!.elapsed, undefined);
+	t.is(replace!.action, 'REPLACE');
+	t.is(typeof replace!.elapsed, 'number');
+	devtools.destroy();
+	history.push('/qux');
+	t.is(devtools.events.length, 2);
+});
+
+test(`createDevtools() keeps only latest events`, (t) => {
+	const history = createMemoryHistory();
+	const devtools = createDevtools(history, {limit: 2, target: null});
+	history.push('/a');
+	history.push('/b');
+	history.push('/c');
+	t.deepEqual(
+		devtools.events.map((event) => event.location.path),
+		['/b', '/c']
+	);
+	devtools.clear();
+	t.is(devtools.events.length, 0);
+});
+
+test(`createDevtools() notifies subscribers`, (t) => {
+	const history = createMemoryHistory();
+	const devtools = createDevtools(history, {target: null});
+	const types: string[] = [];
+	const dispose = devtools.subscribe((event) => types.push(event.type));
+	history.push('/foo');
+	devtools.recordMatch({location: history.location, path: '/foo', candidates: []});
+	dispose();
+	history.push('/bar');
+	t.deepEqual(types, ['navigation', 'match']);
+});
+
+test(`createDevtools() exposes itself on target until destroyed`, (t) => {
+	const target: {__POUTR_DEVTOOLS__?: any} = {};
+	const devtools = createDevtools(createMemoryHistory(), {target});
+	t.is(target.__POUTR_DEVTOOLS__, devtools);
+	devtools.destroy();
+	t.false('__POUTR_DEVTOOLS__' in target);
+});
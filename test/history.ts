@@ -1,6 +1,17 @@
 import test from 'ava';
-import {createWindowSubset, WindowSubset} from './_utils';
-import {History, createBrowserHistory, createHashHistory, createMemoryHistory} from '../src/index';
+import * as assert from 'assert/strict';
+import {createWindow, createWindowSubset, waitFor, WindowSubset} from './_utils';
+import {
+	History,
+	Transition,
+	Guard,
+	createBrowserHistory,
+	createHashHistory,
+	createMemoryHistory,
+	pushWithBackground,
+	getBackgroundLocation,
+	closeToBackground,
+} from '../src/index';
 
 // prettier-ignore
 [
@@ -9,7 +20,7 @@ import {History, createBrowserHistory, createHashHistory, createMemoryHistory} f
 	createMemoryHistory,
 ].forEach(commonHistoryTests);
 
-function commonHistoryTests(createHistory: (o?: {window?: WindowSubset}) => History) {
+function commonHistoryTests(createHistory: (o?: {window?: WindowSubset; basename?: string}) => History) {
 	const name = createHistory.name;
 
 	test(`${name}().subscribe() subscribes a listener`, (t) => {
@@ -191,6 +202,334 @@ function commonHistoryTests(createHistory: (o?: {window?: WindowSubset}) => Hist
 		history.go(-1);
 	});
 
+	test(`${name}().block() blocks push and replace until retried`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const transitions: Transition[] = [];
+		const dispose = history.block((transition) => transitions.push(transition));
+		history.push('/foo', 'fooState');
+		t.is(history.location.path, '/');
+		t.is(transitions[0]?.action, 'PUSH');
+		t.is(transitions[0]?.location.path, '/foo');
+		t.is(transitions[0]?.location.state, 'fooState');
+		transitions[0]?.retry();
+		t.is(history.location.path, '/foo');
+		t.is(history.location.state, 'fooState');
+		history.replace('/bar');
+		t.is(history.location.path, '/foo');
+		t.is(transitions[1]?.action, 'REPLACE');
+		dispose();
+		history.replace('/bar');
+		t.is(history.location.path, '/bar');
+		t.is(transitions.length, 2);
+	});
+
+	test(`${name}().block() requires all blockers to retry`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		let calls = 0;
+		history.block(({retry}) => ++calls && retry());
+		history.block(() => ++calls);
+		history.push('/foo');
+		t.is(calls, 2);
+		t.is(history.location.path, '/');
+	});
+
+	test(`${name}().block() cancels navigations dropped by blockers, or superseded by newer ones`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const transitions: Transition[] = [];
+		history.block((transition) => transitions.push(transition));
+		const dropped = history.push('/foo');
+		transitions[0]?.cancel();
+		t.is((await dropped).status, 'cancelled');
+		const superseded = history.push('/bar');
+		const latest = history.push('/baz');
+		t.is((await superseded).status, 'cancelled');
+		transitions[1]?.retry();
+		t.is(history.location.path, '/');
+		transitions[2]?.retry();
+		t.is((await latest).status, 'committed');
+		t.is(history.location.path, '/baz');
+	});
+
+	test(`${name}().block() restores previous entry on blocked POP`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const transitions: Transition[] = [];
+		const changes: string[] = [];
+		history.push('/foo');
+		history.push('/bar');
+		history.subscribe(({location}) => changes.push(location.path));
+		history.block((transition) => transitions.push(transition));
+		history.go(-2);
+		t.is(history.location.path, '/bar');
+		t.is(history.length, 3);
+		t.is(transitions[0]?.action, 'POP');
+		t.is(transitions[0]?.location.path, '/');
+		t.deepEqual(changes, []);
+		transitions[0]?.retry();
+		t.is(history.location.path, '/');
+		t.is(history.from?.path, '/bar');
+		t.deepEqual(changes, ['/']);
+		t.is(transitions.length, 1);
+	});
+
+	test(`${name}().guard() allows, cancels, and redirects navigations`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const navigations: string[] = [];
+		history.guard(({action, location, from}) => {
+			navigations.push(`${action} ${from.path} ${location.path}`);
+			if (location.path === '/cancel') return false;
+			if (location.path === '/old') return '/new';
+			if (location.path === '/stateful') return {to: '/new', state: 'state'};
+		});
+		history.push('/foo');
+		t.is(history.location.path, '/foo');
+		history.push('/cancel');
+		t.is(history.location.path, '/foo');
+		history.push('/old');
+		t.is(history.location.path, '/new');
+		t.is(history.length, 3);
+		history.replace('/stateful');
+		t.is(history.location.path, '/new');
+		t.is(history.location.state, 'state');
+		t.is(history.length, 3);
+		t.deepEqual(navigations, [
+			'PUSH / /foo',
+			'PUSH /foo /cancel',
+			'PUSH /foo /old',
+			'PUSH /foo /new',
+			'REPLACE /new /stateful',
+			'REPLACE /new /new',
+		]);
+	});
+
+	test(`${name}().guard() runs guards in order, and waits for async ones`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const calls: string[] = [];
+		let resolve: (value: boolean) => void = () => {};
+		history.guard(() => {
+			calls.push('first');
+			return new Promise<boolean>((r) => (resolve = r));
+		});
+		history.guard(() => {
+			calls.push('second');
+		});
+		history.push('/foo');
+		t.is(history.location.path, '/');
+		t.deepEqual(calls, ['first']);
+		resolve(true);
+		await waitFor(() => assert.equal(history.location.path, '/foo'));
+		t.deepEqual(calls, ['first', 'second']);
+	});
+
+	test(`${name}().guard() ignores results of superseded navigations`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const resolves: ((value: boolean) => void)[] = [];
+		history.guard(() => new Promise<boolean>((resolve) => resolves.push(resolve)));
+		history.push('/foo');
+		history.push('/bar');
+		resolves[1]!(true);
+		await waitFor(() => assert.equal(history.location.path, '/bar'));
+		resolves[0]!(true);
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		t.is(history.location.path, '/bar');
+		t.is(history.length, 2);
+	});
+
+	test(`${name}().guard() cancels and redirects POP`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const changes: string[] = [];
+		history.push('/foo');
+		history.push('/bar');
+		history.subscribe(({action, location}) => changes.push(`${action} ${location.path}`));
+		const dispose = history.guard(({location}) => location.path !== '/foo');
+		history.back();
+		t.is(history.location.path, '/bar');
+		dispose();
+		history.guard(({location}) => (location.path === '/foo' ? '/baz' : undefined));
+		history.back();
+		t.is(history.location.path, '/baz');
+		t.is(history.length, 3);
+		history.forward();
+		t.is(history.location.path, '/bar');
+		history.back();
+		t.is(history.location.path, '/baz');
+		t.deepEqual(changes, ['POP /baz', 'POP /bar', 'POP /baz']);
+	});
+
+	test(`${name}() tracks index, and whether it can go back or forward`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		t.is(history.index, 0);
+		t.false(history.canGoBack);
+		t.false(history.canGoForward);
+		history.push('/foo');
+		history.push('/bar');
+		t.is(history.index, 2);
+		t.true(history.canGoBack);
+		t.false(history.canGoForward);
+		history.go(-2);
+		t.is(history.index, 0);
+		t.false(history.canGoBack);
+		t.true(history.canGoForward);
+		history.replace('/baz');
+		t.is(history.index, 0);
+		t.true(history.canGoForward);
+		history.push('/qux');
+		t.is(history.index, 1);
+		t.false(history.canGoForward);
+	});
+
+	test(`${name}().go() resolves with result after POP is handled`, async (t) => {
+		const window = createWindowSubset();
+		const {go} = window.history;
+		window.history.go = (delta) => setTimeout(() => go(delta), 5); // browsers pop asynchronously
+		const history = createHistory({window});
+		const changes: string[] = [];
+		history.push('/foo');
+		history.push('/bar');
+		history.subscribe(({location}) => changes.push(location.path));
+		const {status, location} = await history.go(-2);
+		t.is(status, 'committed');
+		t.is(location, history.location);
+		t.is(location.path, '/');
+		t.deepEqual(changes, ['/']);
+		t.is((await history.forward()).location.path, '/foo');
+		t.deepEqual(await history.go(0), {status: 'cancelled', location: history.location});
+		t.deepEqual(await history.go(5), {status: 'cancelled', location: history.location});
+	});
+
+	test(`${name}().go() resolves with current location when POP is cancelled`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		history.push('/foo');
+		history.guard(() => false);
+		const {status, location} = await history.back();
+		t.is(status, 'cancelled');
+		t.is(location.path, '/foo');
+	});
+
+	test(`${name}().go() resolves redirected POPs`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		history.push('/foo');
+		history.guard(({action, location}) => (action === 'POP' && location.path === '/' ? '/bar' : undefined));
+		const {status, location} = await history.back();
+		t.is(status, 'redirected');
+		t.is(location.path, '/bar');
+	});
+
+	test(`${name}().push() and replace() resolve with navigation result`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const foo = await history.push('/foo');
+		t.is(foo.status, 'committed');
+		t.is(foo.location, history.location);
+		t.is(foo.location.path, '/foo');
+		t.is((await history.replace('/bar')).status, 'committed');
+		t.is(history.location.path, '/bar');
+	});
+
+	test(`${name}().push() resolves guard outcomes`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		history.guard(({location}) => {
+			if (location.path === '/admin') return '/login';
+			if (location.path === '/secret') return Promise.resolve(false);
+		});
+		const redirected = await history.push('/admin');
+		t.is(redirected.status, 'redirected');
+		t.is(redirected.location.path, '/login');
+		const cancelled = await history.push('/secret');
+		t.is(cancelled.status, 'cancelled');
+		t.is(cancelled.location.path, '/login');
+	});
+
+	test(`${name}().push() cancels navigations superseded while guards are pending`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		history.guard(({location}) =>
+			location.path === '/slow' ? new Promise((resolve) => setTimeout(resolve, 10)) : undefined
+		);
+		const slow = history.push('/slow');
+		const fast = await history.push('/fast');
+		t.is(fast.status, 'committed');
+		t.is((await slow).status, 'cancelled');
+		t.is(history.location.path, '/fast');
+	});
+
+	test(`${name}().push() rejects when guard throws`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		history.guard(({location}) => {
+			if (location.path === '/sync') throw new Error('sync');
+			if (location.path === '/async') return Promise.reject(new Error('async'));
+		});
+		await t.throwsAsync(history.push('/sync'), {message: 'sync'});
+		await t.throwsAsync(history.push('/async'), {message: 'async'});
+		t.is(history.location.path, '/');
+	});
+
+	test(`${name}().push() skips duplicate navigations when requested`, async (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		await history.push('/foo?bar=baz');
+		const {status, location} = await history.push('/foo?bar=baz', undefined, {skipDuplicate: true});
+		t.is(status, 'duplicate');
+		t.is(location, history.location);
+		t.is(history.length, 2);
+		t.is((await history.push('/foo?bar=qux', undefined, {skipDuplicate: true})).status, 'committed');
+		t.is((await history.push('/foo?bar=qux')).status, 'committed');
+		t.is(history.length, 4);
+	});
+
+	test(`${name}() stamps each entry with a unique key`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		const initialKey = history.location.key;
+		t.not(initialKey, 'default');
+		history.push('/foo');
+		const fooKey = history.location.key;
+		t.not(fooKey, initialKey);
+		history.push('/bar');
+		t.not(history.location.key, fooKey);
+		t.true(history.location.key.length > 0);
+		history.back();
+		t.is(history.location.key, fooKey);
+		history.replace('/baz');
+		t.not(history.location.key, fooKey);
+		history.back();
+		t.is(history.location.key, initialKey);
+	});
+
+	test(`${name}().createHref() creates href of a destination`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window});
+		history.push('/foo/bar');
+		const href = history.createHref('baz?a=1');
+		t.true(href.endsWith('/foo/baz?a=1'));
+		t.is(history.location.path, '/foo/bar');
+	});
+
+	test(`${name}({basename}) reports paths relative to basename, and prepends it to destinations`, (t) => {
+		const window = createWindowSubset();
+		const history = createHistory({window, basename: '/app/'});
+		history.push('/foo?a=1');
+		t.is(history.location.path, '/foo');
+		t.is(history.location.href, '/foo?a=1');
+		t.falsy(history.location.outsideBasename);
+		t.true(history.createHref('bar').endsWith('/app/bar'));
+		history.push('/');
+		t.is(history.location.path, '/');
+		t.true(history.createHref('?b=2').endsWith('/app?b=2'));
+	});
+
 	test(`${name}() can also store hash`, (t) => {
 		const window = createWindowSubset();
 		const history = createHistory({window});
@@ -223,6 +562,89 @@ test(`createBrowserHistory() attaches itself to location path`, (t) => {
 	t.is(history.location.path, '/');
 });
 
+test(`createBrowserHistory({basename}) prepends basename to location path`, (t) => {
+	const window = createWindowSubset();
+	window.history.replaceState(null, '', '/app/foo');
+	const history = createBrowserHistory({window, basename: 'app'});
+	t.is(history.location.path, '/foo');
+	history.push('/bar');
+	t.is(window.location.pathname, '/app/bar');
+});
+
+test(`createBrowserHistory({basename}) flags locations outside of basename`, (t) => {
+	const window = createWindowSubset();
+	window.history.replaceState(null, '', '/application/foo');
+	const history = createBrowserHistory({window, basename: '/app'});
+	t.true(history.location.outsideBasename);
+	t.is(history.location.path, '/application/foo');
+	history.push('/foo');
+	t.falsy(history.location.outsideBasename);
+});
+
+test(`createBrowserHistory().block() prompts on page unload`, (t) => {
+	const window = createWindow();
+	const history = createBrowserHistory({window: window as any});
+	const dispatchUnload = () => {
+		const event = new window.Event('beforeunload', {cancelable: true});
+		window.dispatchEvent(event);
+		return event.defaultPrevented;
+	};
+	t.false(dispatchUnload());
+	const dispose = history.block(() => {});
+	t.true(dispatchUnload());
+	dispose();
+	t.false(dispatchUnload());
+});
+
+test(`createBrowserHistory().block() lets through POPs to entries created by browser`, (t) => {
+	const window = createWindowSubset();
+	const history = createBrowserHistory({window});
+	const transitions: Transition[] = [];
+	history.push('/b');
+	history.block((transition) => transitions.push(transition));
+	// Entries created by in-page anchors
+	window.history.pushState(null, '', '/b#x');
+	window.history.pushState(null, '', '/b#y');
+	window.history.back();
+	t.is(window.location.href, 'https://example.com/b#x');
+	t.is(history.location.href, '/b#x');
+	t.is(transitions.length, 0);
+});
+
+test(`createBrowserHistory().go() settles when there are no known entries to go to`, async (t) => {
+	const window = createWindowSubset();
+	// Entries from before the app was loaded
+	window.history.pushState(null, '', '/a');
+	window.history.pushState(null, '', '/b');
+	const history = createBrowserHistory({window});
+	t.is(history.index, 0);
+	t.false(history.canGoForward);
+	t.is((await history.forward()).status, 'cancelled');
+	t.is((await history.go(2)).status, 'cancelled');
+	t.is(history.location.path, '/b');
+});
+
+test(`createBrowserHistory() carries index forward to entries created by browser`, (t) => {
+	const window = createWindowSubset();
+	const history = createBrowserHistory({window});
+	history.push('/b');
+	// Entry created by in-page anchor
+	window.history.pushState(null, '', '/b#x');
+	window.history.go(-1);
+	window.history.go(1);
+	t.is(history.location.href, '/b#x');
+	t.not(history.location.key, 'default');
+	t.is(history.index, 2);
+	t.true(history.canGoBack);
+	t.false(history.canGoForward);
+	history.back();
+	t.is(history.location.href, '/b');
+	t.is(history.index, 1);
+	t.true(history.canGoForward);
+	history.forward();
+	t.is(history.index, 2);
+});
+
 test(`createHashHistory() picks up from current hash`, (t) => {
 	const window = createWindowSubset();
 	window.history.pushState(null, '', '#/foo');
@@ -241,6 +663,11 @@ test(`createHashHistory() attaches itself to location hash`, (t) => {
 	t.is(history.location.path, '/');
 });
 
+test(`createHashHistory().createHref() creates hash hrefs`, (t) => {
+	const history = createHashHistory({window: createWindowSubset()});
+	t.is(history.createHref('/foo#bar'), '#/foo\uFF03bar');
+});
+
 test(`createHashHistory() respects hashSubstitute`, (t) => {
 	const window = createWindowSubset();
 	const hashSubstitute = 'ↈ';
@@ -267,6 +694,100 @@ test(`createMemoryHistory({initial}) respects initial location`, (t) => {
 	t.is(history.location.href, '/foo?bar');
 });
 
+test(`createMemoryHistory({initial, basename}) treats initial location as relative to basename`, (t) => {
+	const window = createWindowSubset();
+	createMemoryHistory({window, basename: '/app', initial: '/foo'});
+	t.is(window.history.state?.href, '/app/foo');
+});
+
+test(`createMemoryHistory() exposes entries and index of the current one`, (t) => {
+	const history = createMemoryHistory({initial: '/foo'});
+	t.deepEqual(
+		history.entries.map(({href}) => href),
+		['/foo']
+	);
+	history.push('/bar', 'barState');
+	history.push('/baz');
+	t.is(history.index, 2);
+	history.back();
+	history.back();
+	t.is(history.index, 0);
+	history.push('/qux');
+	history.replace('/quux');
+	t.deepEqual(
+		history.entries.map(({href}) => href),
+		['/foo', '/quux']
+	);
+	t.is(history.entries[1], history.location);
+	t.is(history.index, 1);
+});
+
+test(`createMemoryHistory({storage}) saves entries, and restores them on creation`, (t) => {
+	const data = new Map<string, string>();
+	const storage = {
+		getItem: (key: string) => data.get(key) ?? null,
+		setItem: (key: string, value: string) => data.set(key, `${value}`),
+	};
+	const history = createMemoryHistory({storage, initial: '/foo'});
+	history.push('/bar', {bar: true});
+	history.push('/baz');
+	history.back();
+	const fooKey = history.entries[0]!.key;
+	history.destroy();
+
+	const restored = createMemoryHistory({storage, initial: '/ignored'});
+	t.is(restored.location.href, '/bar');
+	t.deepEqual(restored.location.state, {bar: true});
+	t.is(restored.index, 1);
+	t.true(restored.canGoForward);
+	t.deepEqual(
+		restored.entries.map(({href}) => href),
+		['/foo', '/bar', '/baz']
+	);
+	restored.back();
+	t.is(restored.location.href, '/foo');
+	t.is(restored.location.key, fooKey);
+	restored.forward();
+	restored.forward();
+	t.is(restored.location.href, '/baz');
+	t.is(JSON.parse(data.get('poutr-history')!).index, 2);
+});
+
+test(`createMemoryHistory({storage}) saves entries rewritten by guards redirecting POPs`, (t) => {
+	const data = new Map<string, string>();
+	const storage = {
+		getItem: (key: string) => data.get(key) ?? null,
+		setItem: (key: string, value: string) => data.set(key, `${value}`),
+	};
+	const history = createMemoryHistory({storage});
+	history.push('/foo');
+	history.push('/bar');
+	history.guard(({location}) => (location.path === '/foo' ? '/baz' : undefined));
+	history.back();
+	t.is(history.location.path, '/baz');
+	t.deepEqual(
+		history.entries.map(({path}) => path),
+		['/', '/baz', '/bar']
+	);
+	history.destroy();
+
+	const restored = createMemoryHistory({storage});
+	t.is(restored.location.path, '/baz');
+	t.deepEqual(
+		restored.entries.map(({path}) => path),
+		['/', '/baz', '/bar']
+	);
+});
+
+test(`createMemoryHistory({storage}) ignores invalid saved data`, (t) => {
+	const storage = {getItem: () => '{"entries": [], "index": 0}', setItem: () => {}};
+	const history = createMemoryHistory({storage, initial: '/foo'});
+	t.is(history.location.href, '/foo');
+	t.throws(() => createMemoryHistory({storage, window: createWindowSubset()}), {
+		message: 'storage is not supported with a custom window',
+	});
+});
+
 test(`createMemoryHistory({initial}) throws when navigating outside memory history ranges`, (t) => {
 	const window = createWindowSubset();
 	window.history.pushState(null, '', '/foo');
@@ -278,3 +799,155 @@ test(`createMemoryHistory({initial}) throws when navigating outside memory histo
 		{message: 'navigation out of memory history'}
 	);
 });
+
+test(`pushWithBackground() stashes current location as background of pushed one`, async (t) => {
+	const history = createMemoryHistory({initial: '/feed?page=2'});
+	await pushWithBackground(history, '/photos/42', {from: 'feed'});
+	t.is(history.location.state.from, 'feed');
+	const background = getBackgroundLocation(history.location);
+	t.is(background?.href, '/feed?page=2');
+	t.is(background, getBackgroundLocation(history.location));
+	await pushWithBackground(history, '/photos/43');
+	t.is(getBackgroundLocation(history.location)?.href, '/feed?page=2');
+	await history.push('/about');
+	t.is(getBackgroundLocation(history.location), null);
+});
+
+test(`closeToBackground() goes back to background entry`, async (t) => {
+	const history = createMemoryHistory({initial: '/feed'});
+	await pushWithBackground(history, '/photos/42');
+	await pushWithBackground(history, '/photos/43');
+	const {status, location} = await closeToBackground(history);
+	t.is(status, 'committed');
+	t.is(location.path, '/feed');
+	t.is(history.index, 0);
+	t.true(history.canGoForward);
+	t.is((await closeToBackground(history)).status, 'cancelled');
+});
+
+test(`closeToBackground() replaces current entry when background entry is gone`, async (t) => {
+	const history = createMemoryHistory({initial: '/photos/42'});
+	await history.replace('/photos/42', {
+		background: {href: '/feed', state: undefined, key: 'gone', index: 0},
+	});
+	await closeToBackground(history);
+	t.is(history.location.path, '/feed');
+	t.is(history.length, 1);
+});
+
+test(`createBrowserHistory({validateState}) validates states read from window`, async (t) => {
+	const window = createWindowSubset();
+	const previous = createBrowserHistory({window});
+	await previous.push('/old', {version: 1});
+	await previous.push('/new', {version: 2, scroll: 10});
+	previous.destroy();
+
+	const validateState = (state: any) =>
+		typeof state?.scroll === 'number' ? {scroll: state.scroll as number} : undefined;
+	const history = createBrowserHistory<{scroll: number}>({window, validateState});
+	t.deepEqual(history.location.state, {scroll: 10});
+	await history.back();
+	t.is(history.location.path, '/old');
+	t.is(history.location.state, undefined);
+	await history.push('/pushed', {scroll: 5});
+	t.deepEqual(history.location.state, {scroll: 5});
+	// @ts-expect-error state has to match the state type
+	const pushInvalid = () => history.push('/invalid', {scroll: 'top'});
+	t.is(typeof pushInvalid, 'function');
+});
+
+test(`blockers and guards are typed by history state type`, async (t) => {
+	const history = createMemoryHistory<{scroll: number}>();
+	history.block(({location, retry}) => {
+		t.is(location.state?.scroll, 1);
+		retry();
+	});
+	history.guard(({location}) =>
+		location.path === '/foo' ? {to: '/bar', state: {scroll: location.state!.scroll + 1}} : undefined
+	);
+	// @ts-expect-error redirect state has to match the state type
+	const invalidGuard: Guard<{scroll: number}> = () => ({to: '/bar', state: {scroll: 'top'}});
+	t.is(typeof invalidGuard, 'function');
+	await history.push('/foo', {scroll: 1});
+	t.is(history.location.path, '/bar');
+	t.deepEqual(history.location.state, {scroll: 2});
+});
+
+test(`createMemoryHistory({validateState}) validates restored entries`, (t) => {
+	const data = new Map<string, string>();
+	const storage = {
+		getItem: (key: string) => data.get(key) ?? null,
+		setItem: (key: string, value: string) => data.set(key, `${value}`),
+	};
+	const history = createMemoryHistory({storage});
+	history.push('/foo', {id: 'foo'});
+	history.push('/bar', {id: 5});
+	history.destroy();
+
+	const validateState = (state: any) => (typeof state?.id === 'string' ? {id: state.id as string} : undefined);
+	const restored = createMemoryHistory({storage, validateState});
+	t.is(restored.location.state, undefined);
+	t.deepEqual(
+		restored.entries.map(({state}) => state),
+		[undefined, {id: 'foo'}, undefined]
+	);
+});
+
+test(`push() and replace() reject states that can't be stored in history`, async (t) => {
+	const history = createBrowserHistory({window: createWindowSubset()});
+	await t.throwsAsync(history.push('/foo', {onSave: () => {}}), {
+		message: `state can't be stored in history, state.onSave is a function`,
+	});
+	await t.throwsAsync(history.replace('/foo', {items: [{params: new URLSearchParams()}]}), {
+		message: `state can't be stored in history, state.items[0].params is an instance of URLSearchParams`,
+	});
+	await t.throwsAsync(history.push('/foo', new Map([['key', Symbol()]])), {
+		message: `state can't be stored in history, state.get("key") is a symbol`,
+	});
+	t.is(history.location.path, '/');
+	t.is(history.length, 1);
+
+	const cyclic: any = {date: new Date(), pattern: /foo/, bytes: new Uint8Array(2), set: new Set([1]), nothing: null};
+	cyclic.self = cyclic;
+	t.is((await history.push('/foo', cyclic)).status, 'committed');
+	t.is((await history.push('/bar', Object.create(null))).status, 'committed');
+});
+
+test(`guard redirects reject states that can't be stored in history`, async (t) => {
+	const history = createHashHistory({window: createWindowSubset()});
+	history.guard(({location}) => (location.path === '/foo' ? {to: '/bar', state: {fn: () => {}}} : undefined));
+	await t.throwsAsync(history.push('/foo'), {message: /state\.fn is a function/});
+	t.is(history.location.path, '/');
+});
+
+test(`createMemoryHistory({storage}) rejects states that can't be stored as JSON`, async (t) => {
+	const storage = {getItem: () => null, setItem: () => {}};
+	const history = createMemoryHistory({storage});
+	await t.throwsAsync(history.push('/foo', {tags: new Set(['a'])}), {
+		message: `state can't be stored in history, state.tags is an instance of Set`,
+	});
+	await t.throwsAsync(history.push('/foo', {items: [{at: new Date()}]}), {
+		message: `state can't be stored in history, state.items[0].at is an instance of Date`,
+	});
+	const cyclic: any = {};
+	cyclic.self = cyclic;
+	await t.throwsAsync(history.push('/foo', cyclic), {message: /state\.self is a circular reference/});
+	t.is(history.location.path, '/');
+	const shared = {id: 1};
+	t.is((await history.push('/foo', {a: shared, b: [shared, null, 'x', true], c: undefined})).status, 'committed');
+});
+
+test(`createMemoryHistory({window}) rejects states that can't be stored in window history`, async (t) => {
+	const history = createMemoryHistory({window: createWindowSubset()});
+	await t.throwsAsync(history.push('/x', {fn() {}}), {
+		message: `state can't be stored in history, state.fn is a function`,
+	});
+	t.is((await history.push('/x', {tags: new Set(['a'])})).status, 'committed');
+});
+
+test(`createMemoryHistory() without window or storage accepts any state`, async (t) => {
+	const history = createMemoryHistory();
+	const state = {onSave: () => {}, params: new URLSearchParams('a=b')};
+	t.is((await history.push('/foo', state)).status, 'committed');
+	t.is(history.location.state, state);
+});
@@ -1,8 +1,24 @@
 import test from 'ava';
-import {waitFor} from './_utils';
-import {h, render, Fragment} from 'preact';
+import {waitFor, createWindowSubset} from './_utils';
+import {h, render, Fragment, createRef} from 'preact';
 import * as assert from 'assert/strict';
-import {Router, Route, useHistory, useLocation, useParams, createMemoryHistory} from '../src/index';
+import {
+	Router,
+	Route,
+	useHistory,
+	useLocation,
+	useParams,
+	useBlocker,
+	useNavigation,
+	useMatch,
+	useScrollRestoration,
+	useSearchParams,
+	useQueryState,
+	queryCodecs,
+	createMemoryHistory,
+	createBrowserHistory,
+	History,
+} from '../src/index';
 
 test(`useHistory() returns history`, async (t) => {
 	const container = document.createElement('div');
@@ -10,7 +26,7 @@ test(`useHistory() returns history`, async (t) => {
 
 	function Check() {
 		const hookHistory = useHistory();
-		t.is(history, hookHistory);
+		t.is<History, History>(history, hookHistory);
 		return <Fragment>{hookHistory?.location.href}</Fragment>;
 	}
 
@@ -34,7 +50,7 @@ test(`useLocation() returns [location, setLocation, history]`, async (t) => {
 		const [location, setLocation, hookHistory] = useLocation();
 		t.is(location.href, '/foo');
 		t.is(typeof setLocation, 'function');
-		t.is(history, hookHistory);
+		t.is<History, History>(history, hookHistory);
 		return <Fragment>{location.href}</Fragment>;
 	}
 
@@ -124,3 +140,268 @@ test(`useParams() provides params matched by parent <Route>`, async (t) => {
 	await waitFor(() => assert.equal(container.innerHTML, 'barbar'));
 	t.pass();
 });
+
+test(`useParams() merges params of all parent routes`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/teams/red/players/5'});
+
+	function Check() {
+		const {team, id} = useParams<{team: string; id: string}>();
+		return <Fragment>{`${team}:${id}`}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Route path={/^\/teams\/(?<team>\w+)/} nested>
+				<Route path={/^\/players\/(?<id>\d+)$/} component={Check} />
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'red:5'));
+	t.pass();
+});
+
+test(`useSearchParams() merges updates, and preserves path and hash`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo?a=1&b=2#baz'});
+	let setSearchParams: any;
+
+	function Check() {
+		const [searchParams, set] = useSearchParams();
+		setSearchParams = set;
+		return <Fragment>{searchParams.toString()}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Check />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'a=1&amp;b=2'));
+	setSearchParams({b: null, c: ['x', 'y']});
+	await waitFor(() => assert.equal(container.innerHTML, 'a=1&amp;c=x&amp;c=y'));
+	t.is(history.location.href, '/foo?a=1&c=x&c=y#baz');
+	setSearchParams(new URLSearchParams('d=1'), {replace: true});
+	await waitFor(() => assert.equal(history.location.href, '/foo?d=1#baz'));
+	t.is(history.length, 2);
+});
+
+test(`useQueryState() reads and writes typed values`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo?page=2'});
+	let setPage: any;
+
+	function Check() {
+		const [page, set] = useQueryState('page', queryCodecs.number, {defaultValue: 1});
+		setPage = set;
+		return <Fragment>{page + 1}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Check />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, '3'));
+	setPage((page: number) => page + 5);
+	await waitFor(() => assert.equal(container.innerHTML, '8'));
+	t.is(history.location.href, '/foo?page=7');
+	setPage(null);
+	await waitFor(() => assert.equal(container.innerHTML, '2'));
+	t.is(history.location.href, '/foo');
+});
+
+test(`useQueryState() batches updates made in the same tick into one entry`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	let setters: any[] = [];
+
+	function Check() {
+		const [a, setA] = useQueryState('a');
+		const [b, setB] = useQueryState('b', queryCodecs.array());
+		setters = [setA, setB];
+		return <Fragment>{`${a}:${b}`}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Check />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'undefined:undefined'));
+	setters[0]!('x');
+	setters[1]!(['y', 'z']);
+	setters[1]!((b: string[]) => [...b, 'w']);
+	await waitFor(() => assert.equal(container.innerHTML, 'x:y,z,w'));
+	t.is(history.location.href, '/foo?a=x&b=y&b=z&b=w');
+	t.is(history.length, 2);
+});
+
+test(`useBlocker() calls the latest blocker passed to it`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	const calls: string[] = [];
+
+	function Check({name}: {name: string}) {
+		useBlocker(({retry}) => {
+			calls.push(name);
+			retry();
+		});
+		return null;
+	}
+
+	render(
+		<Router history={history}>
+			<Check name="first" />
+		</Router>,
+		container
+	);
+	render(
+		<Router history={history}>
+			<Check name="second" />
+		</Router>,
+		container
+	);
+
+	history.push('/bar');
+	t.deepEqual(calls, ['second']);
+	t.is(history.location.path, '/bar');
+});
+
+test(`useNavigation() reports loading state of route loaders`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/foo'});
+	let resolve: () => void = () => {};
+
+	function Check() {
+		const {state, location} = useNavigation();
+		return <Fragment>{`${state}:${location?.path || ''}`}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Check />
+			<Route path="/bar" loader={() => new Promise<void>((r) => (resolve = r))}>
+				bar
+			</Route>
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, 'idle:'));
+	history.push('/bar');
+	await waitFor(() => assert.equal(container.innerHTML, 'loading:/bar'));
+	resolve();
+	await waitFor(() => assert.equal(container.innerHTML, 'idle:bar'));
+	t.pass();
+});
+
+test(`useMatch() matches current location outside of routes`, async (t) => {
+	const container = document.createElement('div');
+	const history = createMemoryHistory({initial: '/users/5'});
+
+	function Check() {
+		const match = useMatch('/users/:id');
+		return <Fragment>{match ? match.groups?.id : 'none'}</Fragment>;
+	}
+
+	render(
+		<Router history={history}>
+			<Check />
+		</Router>,
+		container
+	);
+
+	await waitFor(() => assert.equal(container.innerHTML, '5'));
+	history.push('/foo');
+	await waitFor(() => assert.equal(container.innerHTML, 'none'));
+	t.pass();
+});
+
+function createStorage() {
+	const items = new Map<string, string>();
+	return {
+		getItem: (key: string) => items.get(key) ?? null,
+		setItem: (key: string, value: string) => items.set(key, value),
+	};
+}
+
+function renderScrollRestoration(history: History, {storage = createStorage(), targetId = ''} = {}) {
+	const container = document.body.appendChild(document.createElement('div'));
+	const ref = createRef<HTMLDivElement>();
+
+	function Check() {
+		useScrollRestoration({container: ref, storage});
+		return (
+			<div ref={ref}>
+				<p id={targetId}>target</p>
+			</div>
+		);
+	}
+
+	render(
+		<Router history={history}>
+			<Check />
+		</Router>,
+		container
+	);
+
+	return ref.current!;
+}
+
+test(`useScrollRestoration() restores positions on POP, and resets them on PUSH`, async (t) => {
+	const history = createMemoryHistory({initial: '/foo'});
+	const element = renderScrollRestoration(history);
+
+	element.scrollTop = 100;
+	history.push('/bar');
+	await waitFor(() => assert.equal(element.scrollTop, 0));
+	element.scrollTop = 50;
+	history.back();
+	await waitFor(() => assert.equal(element.scrollTop, 100));
+	history.forward();
+	await waitFor(() => assert.equal(element.scrollTop, 50));
+	t.pass();
+});
+
+test(`useScrollRestoration() scrolls to element targeted by hash on PUSH`, async (t) => {
+	const history = createMemoryHistory({initial: '/foo'});
+	const element = renderScrollRestoration(history, {targetId: 'hash-target'});
+	let scrolledTo: Element | undefined;
+	element.querySelector('#hash-target')!.scrollIntoView = function () {
+		scrolledTo = this;
+	};
+
+	element.scrollTop = 100;
+	history.push('/bar#hash-target');
+	await waitFor(() => assert.ok(scrolledTo));
+	t.is(scrolledTo?.id, 'hash-target');
+	t.is(element.scrollTop, 100);
+});
+
+test(`useScrollRestoration() restores position saved in storage when mounted`, async (t) => {
+	const window = createWindowSubset();
+	const storage = createStorage();
+	const history = createBrowserHistory({window});
+	history.push('/foo');
+	const element = renderScrollRestoration(history, {storage});
+
+	element.scrollTop = 100;
+	history.push('/bar');
+	history.back();
+	await waitFor(() => assert.equal(element.scrollTop, 100));
+
+	// Simulate page reload
+	history.destroy();
+	const reloadedElement = renderScrollRestoration(createBrowserHistory({window}), {storage});
+	await waitFor(() => assert.equal(reloadedElement.scrollTop, 100));
+	t.pass();
+});
@@ -0,0 +1,120 @@
+import test from 'ava';
+import {matchRoutes, matchRoute, routeRegExp} from '../src/matcher';
+import {createStaticHistory} from '../src/history';
+import {patternSpecificity} from '../src/pattern';
+
+interface TestRoute {
+	path: RegExp | string;
+	name: string;
+	children?: TestRoute[];
+}
+
+const routes: TestRoute[] = [
+	{path: '/', name: 'home'},
+	{
+		path: '/users',
+		name: 'users',
+		children: [
+			{path: '/', name: 'list'},
+			{path: '/:id', name: 'user', children: [{path: '/posts/:post', name: 'post'}]},
+		],
+	},
+	{path: /^\/about/, name: 'about'},
+];
+
+test(`matchRoutes() returns matched branch with params and rest of the path`, (t) => {
+	const branch = matchRoutes(routes, '/users/5/posts/7?page=2#top');
+	t.deepEqual(
+		branch.map(({route}) => route.name),
+		['users', 'user', 'post']
+	);
+	t.deepEqual(
+		branch.map(({base, rest}) => [base, rest]),
+		[
+			['/users', '/5/posts/7'],
+			['/users/5', '/posts/7'],
+			['/users/5/posts/7', '/'],
+		]
+	);
+	t.deepEqual({...branch[2]!.params}, {id: '5', post: '7'});
+	t.is(branch[2]!.match[0], '/posts/7');
+	t.deepEqual(
+		matchRoutes(routes, '/users/5/posts/7/comments').map(({route}) => route.name),
+		['users', 'user']
+	);
+});
+
+test(`matchRoutes() accepts locations, and ends branches at nested routes without matching children`, (t) => {
+	t.deepEqual(
+		matchRoutes(routes, createStaticHistory('/users').location).map(({route}) => route.name),
+		['users', 'list']
+	);
+	t.deepEqual(
+		matchRoutes(routes, '/users/5').map(({route}) => route.name),
+		['users', 'user']
+	);
+	t.deepEqual(
+		matchRoutes(routes, '/about/team').map(({route}) => route.name),
+		['about']
+	);
+	t.deepEqual(matchRoutes(routes, '/missing'), []);
+});
+
+test(`matchRoutes() ranks routes by specificity when requested`, (t) => {
+	const routes: TestRoute[] = [
+		{path: /^\/users\/new$/, name: 'regexp'},
+		{path: '/users/*rest', name: 'wildcard'},
+		{path: '/users/:id', name: 'param'},
+		{path: '/users/:id(\\d+)', name: 'constrained'},
+		{path: '/users/new', name: 'static'},
+	];
+	const name = (path: string, rank?: boolean) => matchRoutes(routes, path, {rank})[0]?.route.name;
+	t.is(name('/users/new'), 'regexp');
+	t.is(name('/users/new', true), 'static');
+	t.is(name('/users/5', true), 'constrained');
+	t.is(name('/users/john', true), 'param');
+	t.is(name('/users/john/posts', true), 'wildcard');
+	t.is(name('/users', true), 'wildcard');
+});
+
+test(`patternSpecificity() scores pattern segments`, (t) => {
+	t.deepEqual(patternSpecificity('/users/:id(\\d+)/:tab?/*rest'), [4, 3, 1, 0]);
+	t.deepEqual(patternSpecificity('/'), []);
+});
+
+test(`routeRegExp() throws for invalid paths`, (t) => {
+	t.throws(() => routeRegExp(5), {message: /not a RegExp/});
+	t.is(routeRegExp(/foo/).source, 'foo');
+	t.true(routeRegExp('/foo', true).test('/foo/bar'));
+	t.false(routeRegExp('/foo').test('/foo/bar'));
+});
+
+test(`matchRoute() matches search params and hash, capturing their values`, (t) => {
+	const {location} = createStaticHistory('/photos?view=grid&page=2&sort=date-desc#photo-42');
+	const match = matchRoute(
+		{
+			path: '/photos',
+			search: {view: 'grid', page: true, sort: /^(?<sortBy>\w+)-(?<order>asc|desc)$/},
+			hash: /^photo-(?<photo>\d+)$/,
+		},
+		location
+	);
+	t.deepEqual({...match?.groups}, {page: '2', sortBy: 'date', order: 'desc', photo: '42'});
+	t.truthy(matchRoute({path: '/photos', hash: '#photo-42'}, location));
+	t.is(matchRoute({path: '/photos', search: {view: 'list'}}, location), null);
+	t.is(matchRoute({path: '/photos', search: {missing: true}}, location), null);
+	t.is(matchRoute({path: '/photos', search: {sort: /^\d+$/}}, location), null);
+	t.is(matchRoute({path: '/photos', hash: 'photo-1'}, location), null);
+	t.truthy(matchRoute({path: '/', nested: true}, location, '/foo'));
+});
+
+test(`matchRoutes() matches search params and hash of string locations`, (t) => {
+	const routes = [
+		{path: '/photos', name: 'grid', search: {view: 'grid'}},
+		{path: '/photos', name: 'settings', hash: 'settings'},
+		{path: '/photos', name: 'default'},
+	];
+	t.is(matchRoutes(routes, '/photos?view=grid')[0]?.route.name, 'grid');
+	t.is(matchRoutes(routes, '/photos#settings')[0]?.route.name, 'settings');
+	t.is(matchRoutes(routes, '/photos?view=list')[0]?.route.name, 'default');
+});
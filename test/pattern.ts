@@ -0,0 +1,101 @@
+import test from 'ava';
+import {pattern, buildPath, PatternParams} from '../src/pattern';
+
+function groups(regexp: RegExp, path: string) {
+	const match = regexp.exec(path);
+	return match ? {...match.groups} : null;
+}
+
+test(`pattern() compiles static paths`, (t) => {
+	const regexp = pattern('/foo/bar');
+	t.truthy(regexp.exec('/foo/bar'));
+	t.truthy(regexp.exec('/foo/bar/'));
+	t.truthy(regexp.exec('/FOO/bar'));
+	t.is(regexp.exec('/foo'), null);
+	t.is(regexp.exec('/foo/bar/baz'), null);
+	t.truthy(pattern('/').exec('/'));
+	t.is(pattern('/').exec('/foo'), null);
+});
+
+test(`pattern() escapes RegExp characters in static segments`, (t) => {
+	const regexp = pattern('/file.json');
+	t.truthy(regexp.exec('/file.json'));
+	t.is(regexp.exec('/filexjson'), null);
+});
+
+test(`pattern() compiles params into named groups`, (t) => {
+	const regexp = pattern('/users/:id/:tab');
+	t.deepEqual(groups(regexp, '/users/5/settings'), {id: '5', tab: 'settings'});
+	t.is(groups(regexp, '/users/5'), null);
+	t.is(groups(regexp, '/users/5/settings/more'), null);
+});
+
+test(`pattern() supports optional params`, (t) => {
+	const regexp = pattern('/users/:id/:tab?');
+	t.deepEqual(groups(regexp, '/users/5/settings'), {id: '5', tab: 'settings'});
+	t.deepEqual(groups(regexp, '/users/5'), {id: '5', tab: undefined});
+	t.is(groups(regexp, '/users'), null);
+	t.deepEqual(groups(pattern('/:lang?'), '/'), {lang: undefined});
+});
+
+test(`pattern() supports param constraints`, (t) => {
+	const regexp = pattern('/users/:id(\\d+)/:category(player|coach)?');
+	t.deepEqual(groups(regexp, '/users/5/coach'), {id: '5', category: 'coach'});
+	t.is(groups(regexp, '/users/john'), null);
+	t.is(groups(regexp, '/users/5/referee'), null);
+	t.deepEqual(groups(pattern('/:date(\\d+/\\d+)'), '/10/12'), {date: '10/12'});
+});
+
+test(`pattern() supports wildcards`, (t) => {
+	t.deepEqual(groups(pattern('/files/*path'), '/files/a/b/c.txt'), {path: 'a/b/c.txt'});
+	t.deepEqual(groups(pattern('/files/*path'), '/files'), {path: undefined});
+	t.is(pattern('/files/*').exec('/files/a/b')?.[1], 'a/b');
+	t.is(groups(pattern('/files/*'), '/filesystem'), null);
+});
+
+test(`pattern({end: false}) matches only the beginning of the path`, (t) => {
+	const regexp = pattern('/admin/:section', {end: false});
+	t.is(regexp.exec('/admin/users/5')?.[0], '/admin/users');
+	t.is(regexp.exec('/admin/users')?.[0], '/admin/users');
+	t.is(regexp.exec('/admin/usersx')?.[0], '/admin/usersx');
+	t.is(pattern('/admin', {end: false}).exec('/administration'), null);
+});
+
+test(`pattern({sensitive: true}) is case sensitive`, (t) => {
+	t.is(pattern('/Foo', {sensitive: true}).exec('/foo'), null);
+	t.truthy(pattern('/Foo', {sensitive: true}).exec('/Foo'));
+});
+
+test(`pattern() caches compiled expressions`, (t) => {
+	t.is(pattern('/foo/:id'), pattern('/foo/:id'));
+	t.not(pattern('/foo/:id'), pattern('/foo/:id', {end: false}));
+});
+
+test(`pattern() throws on invalid patterns`, (t) => {
+	t.throws(() => pattern('/:id(\\d+'), {message: /unbalanced parentheses/});
+	t.throws(() => pattern('/:id-name'), {message: /invalid pattern segment/});
+});
+
+test(`buildPath() fills pattern params`, (t) => {
+	t.is(buildPath('/users/:id/:tab?', {id: '5', tab: 'posts'}), '/users/5/posts');
+	t.is(buildPath('/users/:id/:tab?', {id: '5'}), '/users/5');
+	t.is(buildPath('/users/:id', {id: 'a b/c'}), '/users/a%20b%2Fc');
+	t.is(buildPath('/files/*path', {path: 'a/b c.txt'}), '/files/a/b%20c.txt');
+	t.is(buildPath('/files/*path'), '/files');
+	t.is(buildPath('/:lang?'), '/');
+});
+
+test(`buildPath() validates params`, (t) => {
+	t.throws(() => buildPath('/users/:id(\\d+)', {id: 'john'}), {message: /doesn't match constraint of param "id"/});
+	t.throws(() => buildPath('/users/:id', {} as any), {message: 'missing value for param "id"'});
+});
+
+test(`PatternParams infers params from pattern`, (t) => {
+	const params: PatternParams<'/users/:id(\\d+)/:tab?/*rest'> = {id: '5'};
+	const full: PatternParams<'/users/:id(\\d+)/:tab?/*rest'> = {id: '5', tab: 'a', rest: 'b'};
+	// @ts-expect-error
+	const missing: PatternParams<'/users/:id'> = {};
+	// @ts-expect-error
+	const unknown: PatternParams<'/users/:id'> = {id: '5', name: 'john'};
+	t.truthy(params && full && missing && unknown);
+});
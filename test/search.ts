@@ -0,0 +1,35 @@
+import test from 'ava';
+import {applySearchUpdate, queryCodecs} from '../src/search';
+
+test(`applySearchUpdate() merges objects, and removes null and undefined values`, (t) => {
+	const params = applySearchUpdate(new URLSearchParams('a=1&b=2&c=3'), {a: 5, b: null, c: undefined, d: ['x', 'y']});
+	t.is(params.toString(), 'a=5&d=x&d=y');
+});
+
+test(`applySearchUpdate() replaces all params with URLSearchParams`, (t) => {
+	const params = applySearchUpdate(new URLSearchParams('a=1&b=2'), new URLSearchParams('c=3'));
+	t.is(params.toString(), 'c=3');
+});
+
+test(`queryCodecs parse values, and reject invalid ones`, (t) => {
+	t.is(queryCodecs.string.parse(['foo', 'bar']), 'foo');
+	t.is(queryCodecs.number.parse(['5.5']), 5.5);
+	t.is(queryCodecs.number.parse(['foo']), undefined);
+	t.is(queryCodecs.number.parse(['']), undefined);
+	t.is(queryCodecs.boolean.parse(['1']), true);
+	t.is(queryCodecs.boolean.parse(['false']), false);
+	t.is(queryCodecs.boolean.parse(['foo']), undefined);
+	t.is(queryCodecs.date.parse(['2020-01-01T00:00:00.000Z'])?.getTime(), Date.UTC(2020, 0, 1));
+	t.is(queryCodecs.date.parse(['foo']), undefined);
+	t.deepEqual(queryCodecs.json<{a: number}>().parse(['{"a":1}']), {a: 1});
+	t.is(queryCodecs.json().parse(['{']), undefined);
+	t.deepEqual(queryCodecs.array(queryCodecs.number).parse(['1', 'foo', '3']), [1, 3]);
+});
+
+test(`queryCodecs serialize values`, (t) => {
+	t.is(queryCodecs.number.serialize(5), '5');
+	t.is(queryCodecs.boolean.serialize(true), 'true');
+	t.is(queryCodecs.date.serialize(new Date(Date.UTC(2020, 0, 1))), '2020-01-01T00:00:00.000Z');
+	t.is(queryCodecs.json().serialize({a: 1}), '{"a":1}');
+	t.deepEqual(queryCodecs.array(queryCodecs.number).serialize([1, 2]), ['1', '2']);
+});
@@ -0,0 +1,34 @@
+import test from 'ava';
+import {createStaticHistory, createBrowserHistory, createHashHistory} from '../src/index';
+
+test(`module can be imported without window`, (t) => {
+	t.is(typeof window, 'undefined');
+});
+
+test(`createBrowserHistory() and createHashHistory() throw without window`, (t) => {
+	t.throws(() => createBrowserHistory(), {message: /window not available/});
+	t.throws(() => createHashHistory(), {message: /window not available/});
+});
+
+test(`createStaticHistory() provides location of passed url`, (t) => {
+	const history = createStaticHistory('https://example.com/foo/bar?baz=1#top');
+	t.is(history.location.href, '/foo/bar?baz=1#top');
+	t.is(history.location.path, '/foo/bar');
+	t.is(history.location.searchParams.get('baz'), '1');
+	t.is(history.createHref('qux'), '/foo/qux');
+});
+
+test(`createStaticHistory() navigates in memory`, (t) => {
+	const history = createStaticHistory('/foo');
+	history.push('bar', 'state');
+	t.is(history.location.path, '/bar');
+	t.is(history.location.state, 'state');
+	history.back();
+	t.is(history.location.path, '/foo');
+});
+
+test(`createStaticHistory({basename}) strips basename from requested URL`, (t) => {
+	const history = createStaticHistory('/app/foo?bar', {basename: '/app'});
+	t.is(history.location.href, '/foo?bar');
+	t.is(history.createHref('baz'), '/app/baz');
+});